@@ -2,50 +2,121 @@
  * Export various modules and types required for the logging system (Browser Version).
  */
 
+export * from "./libs/caller";
 export * from "./libs/defaults";
+export * from "./libs/errors";
 export * from "./libs/formatkits";
 export * from "./libs/inspect";
 export * from "./libs/pallet";
 export * from "./libs/plugins/console";
+export * from "./libs/plugins/redact";
+export * from "./libs/plugins/sample";
+export * from "./libs/record";
+export * from "./libs/serialize";
+export * from "./libs/table";
 export * from "./libs/utils";
 export * from "./types";
 
+import { LggsGetCaller, LggsGetStack, LggsInternalFile } from "./libs/caller";
 import defaults, { type LggsBaseConfig } from "./libs/defaults";
+import type { LggsInspectOptions } from "./libs/inspect";
 import type { LggsPallet } from "./libs/pallet";
 import { ConsolePlugin } from "./libs/plugins/console";
-import { deepMerge } from "./libs/utils";
+import { LggsCreateRecord, LggsFreezeRecord } from "./libs/record";
+import { LggsTable } from "./libs/table";
+import {
+	deepMerge,
+	LggsDefineLevels,
+	LggsFormatDuration,
+	LggsFreeze,
+	LggsSortPlugins,
+} from "./libs/utils";
 import type {
+	LggsDefaultLevel,
 	LggsLevel,
+	LggsLevelMethods,
+	LggsLevelOptions,
 	LggsMessage,
 	LggsPlugin,
 	LggsPluginData,
+	LggsRecord,
+	LggsSpan,
 	PluginConfigOf,
 	PluginsConfigOf,
 } from "./types";
 
+// frames of this module are skipped when capturing the caller
+LggsInternalFile();
+
 /**
  * Initialization options for the Lggs class.
  * Allows partial configuration of base settings and plugin-specific settings.
  *
  * @template Extra - Additional custom configuration properties.
  * @template Ps - List of plugins to initialize with.
+ * @template Levels - Custom level names, inferred from the keys of `levels`.
+ * @template Known - Custom level names already defined by the logger.
  */
 export type LggsInitOptions<
 	Extra extends object,
 	Ps extends readonly LggsPlugin<any>[] = readonly LggsPlugin<any>[],
-> = Partial<Extra & PluginsConfigOf<Ps>> & {
+	Levels extends string = never,
+	Known extends string = never,
+> = Partial<Omit<Extra & PluginsConfigOf<Ps>, "level" | "levels">> & {
 	/**
 	 * Optional array of plugins to be used by the instance.
 	 */
 	plugins?: Ps;
+	/**
+	 * Parent logger whose configuration, plugins and bound fields are inherited.
+	 * Usually set through `logger.child()`.
+	 */
+	parent?: Lggs<any, any, any>;
+	/**
+	 * Minimum level logged, built-in or custom.
+	 */
+	level?: LggsLevel | Known | NoInfer<Levels>;
+	/**
+	 * Level definitions, every new key gets a typed logger method.
+	 */
+	levels?: Partial<Record<LggsLevel | Known, LggsLevelOptions>> & {
+		[K in Levels]: LggsLevelOptions;
+	};
 };
 
+/**
+ * Bindings accepted by `logger.child()`.
+ * `title` overrides the logger title, every other key becomes a bound field.
+ */
+export type LggsChildBindings = {
+	title?: string;
+} & Record<string, unknown>;
+
 /**
  * Default plugins used in the browser logging system.
  * Only ConsolePlugin is included by default for browser environments.
  */
 export const LggsDefaultPlugins = [ConsolePlugin] as const;
 
+/**
+ * Plugins already reported as duplicates, the warning is emitted once.
+ */
+const warned = new WeakSet<LggsPluginData<any>>();
+
+/**
+ * Plugin data whose `onInit` hook already ran, by the first logger using it.
+ */
+const initialized = new WeakSet<LggsPluginData<any>>();
+
+/**
+ * Methods generated for the levels of `LggsCustomLevels`.
+ */
+export interface Lggs<
+	in out Config extends LggsBaseConfig = LggsBaseConfig,
+	in out Ps extends readonly LggsPlugin<any>[] = typeof LggsDefaultPlugins,
+	Levels extends string = never,
+> extends LggsLevelMethods<Lggs<Config, Ps, Levels>> {}
+
 /**
  * Lggs Class (Browser Version)
  *
@@ -54,51 +125,219 @@ export const LggsDefaultPlugins = [ConsolePlugin] as const;
  *
  * @template Config - The configuration object type for this instance.
  * @template Ps - The tuple of plugins used by this instance.
+ * @template Levels - Custom level names of this instance, see `LggsWithLevels`.
  */
+// biome-ignore lint/suspicious/noUnsafeDeclarationMerging: custom level methods are defined at runtime
 export class Lggs<
-	const in out Config extends LggsBaseConfig = typeof defaults,
+	const in out Config extends LggsBaseConfig = LggsBaseConfig,
 	const in out Ps extends
 		readonly LggsPlugin<any>[] = typeof LggsDefaultPlugins,
+	Levels extends string = never,
 > {
 	/**
 	 * Global logging configuration.
 	 * Changes here affect all instances that do not override specific properties.
+	 * Read-only, updated through `Lggs.config()` so the instances notice the change.
 	 */
-	public static configs: Record<string, any> = defaults;
+	public static get configs(): Readonly<Record<string, any>> {
+		return Lggs.globalConfigs;
+	}
 
 	/**
 	 * Instance-specific logging configuration overrides.
 	 * These properties take precedence over global configurations.
+	 * Read-only, updated through `config()` so the cached configuration is rebuilt.
 	 */
-	public configs: Partial<Config & LggsBaseConfig & PluginsConfigOf<Ps>>;
+	public get configs(): Readonly<
+		Partial<Config & LggsBaseConfig & PluginsConfigOf<Ps>>
+	> {
+		return this.instanceConfigs;
+	}
 
 	/**
 	 * Default plugins applied globally to every new instance.
+	 * Read-only, updated through `Lggs.plugin()` / `Lggs.config({ plugins })`.
 	 */
-	public static plugins: LggsPlugin<any>[] = [...LggsDefaultPlugins];
+	public static get plugins(): readonly LggsPlugin<any>[] {
+		return Lggs.globalPlugins;
+	}
 
 	/**
 	 * Instance-specific plugins.
 	 * Includes both global defaults and instance-added plugins.
+	 * Read-only, updated through `plugin()`, `config({ plugins })` and `removePlugin()`.
+	 */
+	public get plugins(): readonly LggsPlugin<any>[] {
+		return this.instancePlugins;
+	}
+
+	/**
+	 * Storage of `Lggs.configs`.
+	 */
+	private static globalConfigs: Record<string, any> = defaults;
+
+	/**
+	 * Storage of `configs`.
+	 */
+	private instanceConfigs: Partial<
+		Config & LggsBaseConfig & PluginsConfigOf<Ps>
+	>;
+
+	/**
+	 * Storage of `Lggs.plugins`.
+	 */
+	private static globalPlugins: LggsPlugin<any>[] = [...LggsDefaultPlugins];
+
+	/**
+	 * Storage of `plugins`.
+	 */
+	private instancePlugins: LggsPlugin<any>[] = [...LggsDefaultPlugins];
+
+	/**
+	 * Parent logger, set when this instance was created through `child()`.
+	 */
+	public parent?: Lggs<any, any, any>;
+
+	/**
+	 * Plugin data created from the global plugins, by plugin.
+	 */
+	public static instances = new Map<LggsPlugin<any>, LggsPluginData<any>>();
+
+	/**
+	 * Plugin data used by this instance, by plugin.
+	 * Factories are invoked once, when the plugin is attached, and kept for the logger lifetime.
+	 * Children share the instances of their parent.
+	 */
+	public instances = new Map<LggsPlugin<any>, LggsPluginData<any>>();
+
+	/**
+	 * Idents removed with `removePlugin()`.
+	 * They are excluded even when provided by the global or parent plugins.
+	 */
+	public removed = new Set<string>();
+
+	/**
+	 * Promises returned by `onSend` and not settled yet, by plugin.
+	 * Children share the pending sends of their parent.
+	 */
+	public pending = new Map<LggsPluginData<any>, Set<Promise<void>>>();
+
+	/**
+	 * Global revision, incremented on every `Lggs.config()` / `Lggs.plugin()` call.
+	 * Lets instances notice global changes and invalidate their caches.
+	 */
+	public static revision = 0;
+
+	/**
+	 * Instance revision, incremented on every `config()` / `plugin()` call.
+	 */
+	public revision = 0;
+
+	/**
+	 * Start times of the `time()` labels, from `performance.now()`.
+	 */
+	private timers = new Map<string, number>();
+
+	/**
+	 * Counters of the `count()` labels.
+	 */
+	private counters = new Map<string, number>();
+
+	/**
+	 * Current `group()` depth.
+	 */
+	private groupDepth = 0;
+
+	/**
+	 * Merged configuration, normalized plugins and `isLevelEnabled` results, valid for `cacheKey`.
+	 */
+	private cache?: {
+		key: string;
+		configs: Config & LggsBaseConfig & PluginsConfigOf<Ps>;
+		plugins: LggsPluginData<any>[];
+		levels: Map<LggsLevel, boolean>;
+	};
+
+	/**
+	 * Global merged configuration, valid for `Lggs.revision`.
+	 */
+	private static cache?: { revision: number; configs: Record<string, any> };
+
+	/**
+	 * Identifies the state of the global, parents and instance configurations.
+	 * Changes whenever one of them is updated.
+	 */
+	protected get cacheKey(): string {
+		return this.parent
+			? `${this.parent.cacheKey}/${this.revision}`
+			: `${Lggs.revision}/${this.revision}`;
+	}
+
+	/**
+	 * Plugins used by this instance, including the ones inherited from the parent.
+	 */
+	protected get pluginList(): readonly LggsPlugin<any>[] {
+		return this.parent
+			? [...this.parent.pluginList, ...this.plugins]
+			: this.plugins;
+	}
+
+	/**
+	 * Whether a plugin ident was removed from this instance or from a parent,
+	 * and not added again since.
+	 */
+	protected isRemoved(ident: string): boolean {
+		if (this.removed.has(ident)) return true;
+		if (this.plugins.some((p) => this.instances.get(p)?.ident === ident)) {
+			return false;
+		}
+		return this.parent ? this.parent.isRemoved(ident) : false;
+	}
+
+	/**
+	 * Returns the instance cache, rebuilding it when `cacheKey` changed.
 	 */
-	public plugins: LggsPlugin<any>[] = [...LggsDefaultPlugins];
+	private get cached() {
+		const key = this.cacheKey;
+		if (!this.cache || this.cache.key !== key) {
+			const plugins = Lggs.pluginLoader(
+				this.pluginList,
+				false,
+				this.instances,
+			).filter((plugin) => !this.isRemoved(plugin.ident));
+			const configs = deepMerge(
+				{} as Record<string, any>,
+				Lggs.globalConfigs,
+				...plugins.map((a) => a.default),
+				...(this.parent ? [this.parent.allconfigs] : []),
+				this.instanceConfigs,
+			) as Config & LggsBaseConfig & PluginsConfigOf<Ps>;
+			this.cache = {
+				key,
+				configs: LggsFreeze(configs),
+				plugins,
+				levels: new Map(),
+			};
+			// children share the plugin data of their parent, it is never initialized again
+			for (const plugin of plugins) {
+				if (!plugin.onInit || initialized.has(plugin)) continue;
+				initialized.add(plugin);
+				plugin.onInit(this.cache.configs as any, this);
+			}
+		}
+		return this.cache;
+	}
 
 	/**
 	 * Get all instance configurations including plugin configurations.
-	 * Merges: Global Defaults -> Plugin Defaults -> Instance Overrides.
+	 * Merges: Global Defaults -> Plugin Defaults -> Parent -> Instance Overrides.
+	 * The result is cached until `config()`, `plugin()`, `Lggs.config()` or `Lggs.plugin()` is called,
+	 * it is deep-frozen.
 	 *
 	 * @returns The fully merged configuration object.
 	 */
 	public get allconfigs(): Config & LggsBaseConfig & PluginsConfigOf<Ps> {
-		const pluginDefaults = Lggs.pluginLoader(this.plugins).map(
-			(a) => a.default,
-		);
-		return deepMerge(
-			{} as Record<string, any>,
-			Lggs.configs,
-			...pluginDefaults,
-			this.configs,
-		) as Config & LggsBaseConfig & PluginsConfigOf<Ps>;
+		return this.cached.configs;
 	}
 
 	/**
@@ -107,10 +346,18 @@ export class Lggs<
 	 * @returns The fully merged global configuration object.
 	 */
 	public static get allconfigs() {
-		const pluginDefaults = Lggs.pluginLoader(Lggs.plugins).map(
-			(a) => a.default,
-		);
-		return deepMerge({}, Lggs.configs, ...pluginDefaults);
+		if (!Lggs.cache || Lggs.cache.revision !== Lggs.revision) {
+			const pluginDefaults = Lggs.pluginLoader(Lggs.plugins).map(
+				(a) => a.default,
+			);
+			Lggs.cache = {
+				revision: Lggs.revision,
+				configs: LggsFreeze(
+					deepMerge({}, Lggs.globalConfigs, ...pluginDefaults),
+				),
+			};
+		}
+		return Lggs.cache.configs;
 	}
 
 	/**
@@ -118,7 +365,7 @@ export class Lggs<
 	 *
 	 * @param config - The initialization options including base config and plugins.
 	 */
-	constructor(config?: LggsInitOptions<Config, Ps>);
+	constructor(config?: LggsInitOptions<Config, Ps, Levels>);
 	/**
 	 * Constructor using legacy title and color parameters.
 	 *
@@ -129,15 +376,15 @@ export class Lggs<
 	constructor(
 		title: string,
 		color?: keyof typeof LggsPallet,
-		advanced?: LggsInitOptions<Config, Ps>,
+		advanced?: LggsInitOptions<Config, Ps, Levels>,
 	);
 	/**
 	 * Internal constructor implementation supporting both object-based and positional arguments.
 	 */
 	constructor(
-		opts?: LggsInitOptions<Config, Ps> | string,
+		opts?: LggsInitOptions<Config, Ps, Levels> | string,
 		color: keyof typeof LggsPallet = "blue",
-		advanced: LggsInitOptions<Config, Ps> = {},
+		advanced: LggsInitOptions<Config, Ps, Levels> = {},
 	) {
 		const IsOpt = typeof opts === "object" && opts !== null;
 
@@ -146,51 +393,100 @@ export class Lggs<
 			(advanced as any)?.plugins ||
 			[];
 		if (plugins.length > 0) {
-			this.plugins = [...this.plugins, ...plugins];
+			this.instancePlugins = [...this.instancePlugins, ...plugins];
 		}
 
-		const initialConfig = {
-			color,
+		const { parent, ...initialConfig } = {
+			// children inherit the parent color unless explicitly overridden
+			...(IsOpt && opts.parent ? {} : { color }),
 			...advanced,
 			...(typeof opts === "string" ? { title: opts } : opts),
 		};
+		if (parent) {
+			this.parent = parent;
+			this.instances = parent.instances;
+			this.pending = parent.pending;
+			// inherited plugins come from the parent, only keep the extra ones
+			this.instancePlugins = plugins;
+		}
 
-		this.configs = initialConfig as Partial<
+		this.instanceConfigs = initialConfig as Partial<
 			Config & LggsBaseConfig & PluginsConfigOf<Ps>
 		>;
+		// also initializes the plugins
+		LggsDefineLevels(this, this.allconfigs.levels);
+	}
 
-		Lggs.pluginLoader(this.plugins).forEach((plugin) => {
-			if (plugin.onInit) plugin.onInit(this.allconfigs as any);
-		});
+	/**
+	 * Creates a logger typed with a method for every custom level of `levels`.
+	 * Same as `new Lggs(options)`, which only types the levels of `LggsCustomLevels`.
+	 *
+	 * @template Ps - The tuple of plugins used by the logger.
+	 * @template Levels - Custom level names, inferred from `levels`.
+	 * @param options - The initialization options.
+	 * @returns The new logger instance.
+	 *
+	 * @example
+	 * ```ts
+	 * const logger = Lggs.create({ levels: { fatal: { severity: 0 } } });
+	 * logger.fatal("Disk full");
+	 * ```
+	 */
+	public static create<
+		const Ps extends readonly LggsPlugin<any>[] = typeof LggsDefaultPlugins,
+		const Levels extends string = never,
+	>(
+		options?: LggsInitOptions<LggsBaseConfig, Ps, Levels>,
+	): LggsWithLevels<LggsBaseConfig, Ps, Levels> {
+		return new Lggs(options as never) as never;
 	}
 
 	/**
 	 * Loads and normalizes plugins (handling both objects and generator functions).
 	 * Automatically merges global static plugins unless `nostatic` is set to true.
+	 * Factories are invoked once per `instances` map, the same plugin data is returned on later calls.
+	 * An instance plugin replaces the global plugin with the same ident, a duplicate ident in the
+	 * same list emits a warning. The result is ordered by `priority` and `after` / `before`,
+	 * then by list order: global plugins first, instance plugins in the order they are listed.
 	 *
 	 * @param instance_plugins - Plugins specific to the instance.
 	 * @param nostatic - If true, ignores globally registered plugins.
+	 * @param instances - Plugin data already created, by plugin. Defaults to the global instances.
 	 * @returns An array of normalized plugin data objects.
 	 */
 	public static pluginLoader<Plugins extends readonly LggsPlugin<any>[]>(
 		instance_plugins: Plugins,
 		nostatic = false,
+		instances: Map<LggsPlugin<any>, LggsPluginData<any>> = Lggs.instances,
 	): LggsPluginData<any>[] {
-		const plugins: Record<string, LggsPluginData<any>> = {};
-
-		if (!nostatic) {
-			Lggs.plugins.forEach((p) => {
-				const plugin = typeof p === "function" ? p() : p;
-				plugins[plugin.ident] = plugin;
-			});
-		}
+		const plugins = new Map<string, LggsPluginData<any>>();
+		const warn = (message: string) => console.warn(`LggsWarning: ${message}`);
+		const load = (list: readonly LggsPlugin<any>[]) => {
+			const seen = new Map<string, LggsPluginData<any>>();
+			for (const p of list) {
+				let plugin = instances.get(p);
+				if (!plugin) {
+					plugin = typeof p === "function" ? p() : p;
+					instances.set(p, plugin);
+				}
+				const previous = seen.get(plugin.ident);
+				if (previous && previous !== plugin && !warned.has(plugin)) {
+					warned.add(plugin);
+					warn(
+						`Plugin ident "${plugin.ident}" is used by several plugins, the last one replaces the others`,
+					);
+				}
+				seen.set(plugin.ident, plugin);
+				// the listed order wins over the position of a replaced global plugin
+				plugins.delete(plugin.ident);
+				plugins.set(plugin.ident, plugin);
+			}
+		};
 
-		instance_plugins.forEach((p) => {
-			const plugin = typeof p === "function" ? p() : p;
-			plugins[plugin.ident] = plugin;
-		});
+		if (!nostatic) load(Lggs.plugins);
+		load(instance_plugins);
 
-		return Object.values(plugins);
+		return LggsSortPlugins([...plugins.values()], warn);
 	}
 
 	/**
@@ -205,15 +501,16 @@ export class Lggs<
 	public plugin<P extends LggsPlugin<any>>(
 		plugin: P,
 		config?: Partial<PluginConfigOf<P>>,
-	): Lggs<Config & PluginConfigOf<P>, readonly [...Ps, P]> {
-		this.plugins.push(plugin);
+	): LggsWithLevels<Config & PluginConfigOf<P>, readonly [...Ps, P], Levels> {
+		this.instancePlugins.push(plugin);
+		this.revision++;
 
-		if (config) this.configs = deepMerge(this.configs, config);
+		if (config) this.instanceConfigs = deepMerge(this.instanceConfigs, config);
 
-		const pluginData = (
-			typeof plugin === "object" ? plugin : plugin()
-		) as LggsPluginData<any>;
-		if (pluginData.onInit) pluginData.onInit(this.allconfigs as any);
+		const [pluginData] = Lggs.pluginLoader([plugin], true, this.instances);
+		this.removed.delete(pluginData.ident);
+		// initializes the new plugin
+		void this.cached;
 
 		return this as any;
 	}
@@ -230,32 +527,81 @@ export class Lggs<
 		plugin: LggsPlugin<T>,
 		config?: T,
 	): typeof Lggs {
-		Lggs.plugins.push(plugin);
-		if (config) Lggs.configs = deepMerge(Lggs.configs, config);
+		Lggs.globalPlugins.push(plugin);
+		Lggs.revision++;
+		if (config) Lggs.globalConfigs = deepMerge(Lggs.globalConfigs, config);
 		return Lggs;
 	}
 
+	/**
+	 * Removes a plugin from this logger instance, including a global or parent plugin.
+	 * Resources of the plugin are not released, call `close()` before if needed.
+	 *
+	 * @param ident - The ident of the plugin to remove.
+	 * @returns `true` if the plugin was used by this instance.
+	 *
+	 * @example
+	 * ```ts
+	 * logger.removePlugin("lggs-register"); // console only
+	 * ```
+	 */
+	public removePlugin(ident: string): boolean {
+		const found = this.hasPlugin(ident);
+		this.instancePlugins = this.instancePlugins.filter(
+			(p) => Lggs.pluginLoader([p], true, this.instances)[0].ident !== ident,
+		);
+		this.removed.add(ident);
+		this.revision++;
+		return found;
+	}
+
+	/**
+	 * Checks whether a plugin is used by this logger instance.
+	 *
+	 * @param ident - The ident of the plugin.
+	 * @returns `true` if a plugin with this ident runs on every log call.
+	 */
+	public hasPlugin(ident: string): boolean {
+		return this.cached.plugins.some((plugin) => plugin.ident === ident);
+	}
+
 	/**
 	 * Updates the configuration of this logger instance.
 	 *
 	 * @template EConfig - Additional configuration types to merge.
 	 * @template EPs - Additional plugins to add via config.
+	 * @template ELevels - Custom levels added by `levels`.
 	 * @param advanced - The new configuration options.
 	 * @returns The updated logger instance.
 	 */
 	public config<
-		const EConfig extends LggsBaseConfig = typeof defaults,
+		const EConfig extends LggsBaseConfig = LggsBaseConfig,
 		const EPs extends readonly LggsPlugin<any>[] = Ps,
+		const ELevels extends string = never,
 	>(
-		advanced: LggsInitOptions<EConfig, EPs> & Partial<PluginsConfigOf<Ps>>,
-	): Lggs<EConfig & Config, readonly [...EPs, ...Ps]> {
-		this.configs = deepMerge(this.configs, advanced as any);
+		advanced: LggsInitOptions<EConfig, EPs, ELevels, Levels> &
+			Partial<Omit<PluginsConfigOf<Ps>, "level" | "levels">>,
+	): LggsWithLevels<
+		EConfig & Config,
+		readonly [...EPs, ...Ps],
+		Levels | ELevels
+	> {
+		this.instanceConfigs = deepMerge(this.instanceConfigs, advanced as any);
+		this.revision++;
+		if (advanced.levels) LggsDefineLevels(this, this.allconfigs.levels);
 
 		if (advanced.plugins) {
-			Lggs.pluginLoader(advanced.plugins, true).forEach((plugin) => {
-				if (plugin.onInit) plugin.onInit(this.allconfigs as any);
-			});
-			this.plugins.push(...advanced.plugins);
+			for (const plugin of Lggs.pluginLoader(
+				advanced.plugins,
+				true,
+				this.instances,
+			)) {
+				this.removed.delete(plugin.ident);
+			}
+			this.instancePlugins.push(...advanced.plugins);
+			this.revision++;
+			// initializes the new plugins
+			void this.cached;
 		}
 
 		return this as never;
@@ -270,46 +616,278 @@ export class Lggs<
 	 * @returns The Lggs class for chaining.
 	 */
 	public static config<
-		const EConfig extends LggsBaseConfig = typeof defaults,
+		const EConfig extends LggsBaseConfig = LggsBaseConfig,
 		const EPs extends
 			readonly LggsPlugin<any>[] = typeof LggsDefaultPlugins,
 	>(advanced: LggsInitOptions<EConfig, EPs>) {
-		Lggs.configs = deepMerge(Lggs.configs, advanced);
+		Lggs.globalConfigs = deepMerge(Lggs.globalConfigs, advanced);
+		Lggs.revision++;
+		if (advanced?.levels) LggsDefineLevels(Lggs.prototype, Lggs.configs.levels);
 
+		// every logger initializes the global plugins it uses on its next log call
 		if (advanced?.plugins) {
-			Lggs.pluginLoader(advanced.plugins, false).forEach((plugin) => {
-				if (plugin.onInit) plugin.onInit(Lggs.allconfigs as any);
-			});
-			Lggs.plugins.push(...advanced.plugins);
+			Lggs.globalPlugins.push(...advanced.plugins);
+			Lggs.revision++;
 		}
 
 		return Lggs;
 	}
 
+	/**
+	 * Creates a child logger bound to this instance.
+	 * The child shares the parent plugins and configuration, later parent changes still flow down.
+	 *
+	 * @param bindings - The child title and the fields bound to every message.
+	 * @param overrides - Configuration deep-merged over the parent configuration.
+	 * @returns The child logger instance.
+	 *
+	 * @example
+	 * ```ts
+	 * const request = logger.child({ title: "Http", requestId: "a1b2" });
+	 * request.info("GET /"); // fields: requestId=a1b2
+	 * ```
+	 */
+	public child(
+		bindings: LggsChildBindings = {},
+		overrides: LggsInitOptions<Config, Ps, never, Levels> = {},
+	): LggsWithLevels<Config, Ps, Levels> {
+		const { title, ...fields } = bindings;
+		return new Lggs<Config, Ps, Levels>({
+			...overrides,
+			...(title !== undefined ? { title } : {}),
+			fields: deepMerge({}, overrides.fields ?? {}, fields),
+			parent: this,
+		} as never) as LggsWithLevels<Config, Ps, Levels>;
+	}
+
+	/**
+	 * Checks whether at least one plugin outputs the level.
+	 * The result is cached until `config()`, `plugin()`, `Lggs.config()` or `Lggs.plugin()` is called.
+	 *
+	 * @param level - The log level to check.
+	 * @returns `true` if a message of this level would be logged somewhere.
+	 *
+	 * @example
+	 * ```ts
+	 * if (logger.isLevelEnabled("debug")) logger.debug(buildReport());
+	 * ```
+	 */
+	public isLevelEnabled(level: LggsLevel): boolean {
+		const cache = this.cached;
+		let enabled = cache.levels.get(level);
+		if (enabled === undefined) {
+			enabled = cache.plugins.some(
+				(plugin) =>
+					// middleware-only plugins do not output anything
+					(plugin.onPreMessage || plugin.onMessage || !plugin.onRecord) &&
+					(!plugin.isLevelEnabled ||
+						plugin.isLevelEnabled(cache.configs as any, level)),
+			);
+			cache.levels.set(level, enabled);
+		}
+		return enabled;
+	}
+
+	/**
+	 * Runs a teardown hook on every plugin, in parallel.
+	 * Errors are passed to the plugin `onError` hook, or rethrown when it has none.
+	 */
+	private async lifecycle(hook: "onFlush" | "onClose") {
+		const { configs, plugins } = this.cached;
+		await Promise.all(
+			plugins.map(async (plugin) => {
+				try {
+					await plugin[hook]?.(configs as any);
+				} catch (e) {
+					if (plugin.onError) plugin.onError(configs as any, e as Error);
+					else throw e;
+				}
+			}),
+		);
+	}
+
+	/**
+	 * Tracks a promise returned by `onSend` until it settles.
+	 * Rejections are passed to the plugin `onError` hook, or reported as a warning when it has none.
+	 */
+	private track(
+		plugin: LggsPluginData<any>,
+		config: Record<string, any>,
+		sent: PromiseLike<unknown>,
+	) {
+		let sending = this.pending.get(plugin);
+		if (!sending) {
+			sending = new Set();
+			this.pending.set(plugin, sending);
+		}
+		const current = sending;
+		const tracked: Promise<void> = Promise.resolve(sent)
+			.then(
+				() => undefined,
+				(e) => {
+					try {
+						if (plugin.onError) {
+							plugin.onError(config, e as Error);
+							return;
+						}
+					} catch (error) {
+						e = error;
+					}
+					// nothing awaits the send, the failure is reported instead of rethrown
+					const message = `Plugin "${plugin.ident}" failed to send: ${(e as Error)?.message ?? e}`;
+					console.warn(`LggsWarning: ${message}`);
+				},
+			)
+			.finally(() => current.delete(tracked));
+		current.add(tracked);
+	}
+
+	/**
+	 * Waits for every pending `onSend` promise, including the ones started while waiting.
+	 *
+	 * @returns A promise resolved once no send is pending.
+	 *
+	 * @example
+	 * ```ts
+	 * logger.info("Shutting down");
+	 * await logger.drain();
+	 * ```
+	 */
+	public async drain(): Promise<void> {
+		for (;;) {
+			const pending = [...this.pending.values()].flatMap((sending) => [
+				...sending,
+			]);
+			if (pending.length === 0) return;
+			await Promise.allSettled(pending);
+		}
+	}
+
+	/**
+	 * Writes the pending output of every plugin (buffered files, network batches...).
+	 * Pending sends are drained first.
+	 *
+	 * @returns A promise resolved once every plugin `onFlush` hook is done.
+	 */
+	public async flush(): Promise<void> {
+		await this.drain();
+		await this.lifecycle("onFlush");
+	}
+
+	/**
+	 * Flushes every plugin, then releases their resources.
+	 * Plugins may open them again on the next message.
+	 *
+	 * @returns A promise resolved once every plugin `onClose` hook is done.
+	 */
+	public async close(): Promise<void> {
+		await this.flush();
+		await this.lifecycle("onClose");
+	}
+
 	/**
 	 * Internal controller that coordinates message processing through all registered plugins.
-	 * Executes lifecycle hooks: onPreMessage -> onMessage -> onSend.
+	 * Creates a single record for the call and passes it through the `onRecord` middlewares,
+	 * then executes lifecycle hooks: onPreMessage -> onMessage -> onSend.
+	 * Promises returned by `onSend` are tracked (see `drain()`), plugins with too many pending sends drop the message.
+	 * Every plugin gets the same frozen configuration, messages and record, `transform` plugins pass their
+	 * `onPreMessage` result to the following plugins.
+	 * Nothing is done when no plugin accepts the level, lazy messages are evaluated only after that check.
 	 *
-	 * @param msgs - The raw messages to log.
+	 * @param msgs - The raw messages to log, or a single arrow function returning them.
 	 * @param level - The log level (info, error, debug, etc.).
+	 * @param extra - Metadata added to the record, e.g. the `duration` of a timer.
 	 */
-	public controller(msgs: LggsMessage[], level: LggsLevel) {
-		const fullConfig = this.allconfigs;
+	public controller(
+		msgs: LggsMessage[],
+		level: LggsLevel,
+		extra: Partial<LggsRecord> = {},
+	) {
+		if (!this.isLevelEnabled(level)) return;
+		// lazy message: logger.debug(() => expensiveDump())
+		if (
+			msgs.length === 1 &&
+			typeof msgs[0] === "function" &&
+			msgs[0].prototype === undefined
+		) {
+			const result = msgs[0]();
+			msgs = Array.isArray(result) ? result : [result];
+		}
+		const { configs: fullConfig, plugins } = this.cached;
+		if (this.groupDepth > 0) extra = { group: this.groupDepth, ...extra };
+		if (fullConfig.caller) extra = { caller: LggsGetCaller(), ...extra };
+		let record = LggsCreateRecord(
+			fullConfig,
+			level,
+			Object.freeze([...msgs]) as LggsMessage[],
+			extra,
+		);
 
-		Lggs.pluginLoader(this.plugins).forEach((plugin) => {
+		// middleware stage, the resulting record is shared by every sink
+		for (const plugin of plugins) {
+			if (!plugin.onRecord) continue;
+			try {
+				const next = plugin.onRecord(fullConfig as any, record);
+				if (!next) return;
+				if (next !== record) record = LggsFreezeRecord(next);
+			} catch (e) {
+				if (plugin.onError) plugin.onError(fullConfig as any, e as Error);
+				else throw e;
+			}
+		}
+		level = record.level;
+		// plugins get a frozen view of the messages, only `transform` plugins change it for the next ones
+		let input = record.args;
+
+		for (const plugin of plugins) {
+			const sending = this.pending.get(plugin);
+			if (
+				plugin.concurrency !== undefined &&
+				sending &&
+				sending.size >= plugin.concurrency
+			) {
+				// backpressure: a slow sink drops messages instead of growing memory
+				if (plugin.onError) {
+					plugin.onError(
+						fullConfig as any,
+						new Error(
+							`Plugin "${plugin.ident}" has ${sending.size} pending sends, message dropped`,
+						),
+					);
+				}
+				continue;
+			}
 			try {
 				const messages = plugin.onPreMessage
-					? plugin.onPreMessage(fullConfig as any, level, msgs)
-					: msgs;
+					? plugin.onPreMessage(fullConfig as any, level, input, record)
+					: input;
+				if (plugin.transform) {
+					// dropped for every following plugin
+					if (!messages) break;
+					input = Object.freeze([...messages]) as LggsMessage[];
+				}
 				if (messages && plugin.onMessage) {
-					const message = plugin.onMessage(fullConfig as any, level, messages);
-					if (plugin.onSend) plugin.onSend(fullConfig as any, level, message);
+					const message = plugin.onMessage(
+						fullConfig as any,
+						level,
+						plugin.transform ? input : messages,
+						record,
+					);
+					const sent = plugin.onSend?.(
+						fullConfig as any,
+						level,
+						message,
+						record,
+					);
+					if (typeof (sent as PromiseLike<unknown>)?.then === "function") {
+						this.track(plugin, fullConfig, sent as PromiseLike<unknown>);
+					}
 				}
 			} catch (e) {
 				if (plugin.onError) plugin.onError(fullConfig as any, e as Error);
 				else throw e;
 			}
-		});
+		}
 	}
 
 	/** Log message with INFO level */
@@ -327,9 +905,13 @@ export class Lggs<
 		this.controller(messages, "error");
 		return this;
 	}
-	/** Log message with TRACE level */
+	/** Log message with TRACE level, followed by the stack of the call */
 	public trace(...messages: LggsMessage[]) {
-		this.controller(messages, "trace");
+		// the stack is only captured when the message is logged
+		if (!this.isLevelEnabled("trace")) return this;
+		this.controller(messages, "trace", {
+			stack: LggsGetStack(this.cached.configs.trace_depth),
+		});
 		return this;
 	}
 	/** Log message with INFO level (alias) */
@@ -347,6 +929,157 @@ export class Lggs<
 		this.controller(messages, "txt");
 		return this;
 	}
+
+	/** Start a timer, see `timeLog()` and `timeEnd()` */
+	public time(label = "default") {
+		if (this.timers.has(label)) {
+			this.controller([`Timer "${label}" already exists`], "warn");
+		} else {
+			this.timers.set(label, performance.now());
+		}
+		return this;
+	}
+	/** Log the elapsed time of a timer with INFO level */
+	public timeLog(label = "default", ...messages: LggsMessage[]) {
+		const start = this.timers.get(label);
+		if (start === undefined) {
+			this.controller([`No such label "${label}"`], "warn");
+		} else {
+			this.logDuration(label, performance.now() - start, messages, "info");
+		}
+		return this;
+	}
+	/** Log the elapsed time of a timer with INFO level and stop it */
+	public timeEnd(label = "default") {
+		this.timeLog(label);
+		this.timers.delete(label);
+		return this;
+	}
+
+	/** Log tabular data as a table with INFO level */
+	public table(data: unknown, properties?: readonly string[]) {
+		const table = LggsTable(data, properties);
+		this.controller(table === undefined ? [data] : [table], "info");
+		return this;
+	}
+	/** Log an object with INFO level, `options` override the inspect options for this call */
+	public dir(item?: unknown, options?: LggsInspectOptions) {
+		this.controller([item], "info", options ? { inspect: options } : {});
+		return this;
+	}
+	/** Log message with INFO level (alias) */
+	public dirxml(...messages: LggsMessage[]) {
+		this.controller(messages, "info");
+		return this;
+	}
+	/** Log message with ERROR level when the condition is falsy */
+	public assert(condition?: unknown, ...messages: LggsMessage[]) {
+		if (condition) return this;
+		if (typeof messages[0] === "string") {
+			messages = [`Assertion failed: ${messages[0]}`, ...messages.slice(1)];
+		} else {
+			messages = ["Assertion failed", ...messages];
+		}
+		this.controller(messages, "error");
+		return this;
+	}
+	/** Log how many times a label was counted with INFO level */
+	public count(label = "default") {
+		const count = (this.counters.get(label) ?? 0) + 1;
+		this.counters.set(label, count);
+		this.controller([`${label}: ${count}`], "info");
+		return this;
+	}
+	/** Reset the counter of a label */
+	public countReset(label = "default") {
+		if (this.counters.has(label)) {
+			this.counters.set(label, 0);
+		} else {
+			this.controller([`Count for "${label}" does not exist`], "warn");
+		}
+		return this;
+	}
+	/** Log message with INFO level and indent the next messages */
+	public group(...messages: LggsMessage[]) {
+		if (messages.length > 0) this.controller(messages, "info");
+		this.groupDepth++;
+		return this;
+	}
+	/** Log message with INFO level and indent the next messages (alias) */
+	public groupCollapsed(...messages: LggsMessage[]) {
+		return this.group(...messages);
+	}
+	/** Stop indenting the messages of the last `group()` */
+	public groupEnd() {
+		if (this.groupDepth > 0) this.groupDepth--;
+		return this;
+	}
+
+	/**
+	 * Starts a span, a timer handle that logs its elapsed time.
+	 *
+	 * @param name - The name prefixed to the span messages.
+	 * @param level - The level of the span messages.
+	 * @returns The span handle.
+	 *
+	 * @example
+	 * ```ts
+	 * const span = logger.span("db.query");
+	 * await query();
+	 * span.end({ rows: 10 }); // db.query: 12.345ms { rows: 10 }
+	 * ```
+	 */
+	public span(name: string, level: LggsLevel = "info"): LggsSpan {
+		const start = performance.now();
+		const span: LggsSpan = {
+			name,
+			elapsed: () => performance.now() - start,
+			log: (...messages) => {
+				this.logDuration(name, span.elapsed(), messages, level);
+				return span;
+			},
+			end: (...messages) => {
+				const duration = span.elapsed();
+				this.logDuration(name, duration, messages, level);
+				return duration;
+			},
+		};
+		return span;
+	}
+
+	/**
+	 * Logs `label: duration` and sets the record `duration`, used by the timers and spans.
+	 */
+	private logDuration(
+		label: string,
+		duration: number,
+		messages: LggsMessage[],
+		level: LggsLevel,
+	) {
+		this.controller(
+			[`${label}: ${LggsFormatDuration(duration)}`, ...messages],
+			level,
+			{ duration },
+		);
+	}
 }
 
+/**
+ * A logger with a typed method for every level of its `levels` option,
+ * returned by `Lggs.create()`, `config()`, `plugin()` and `child()`.
+ *
+ * @template Config - The configuration object type for this instance.
+ * @template Ps - The tuple of plugins used by this instance.
+ * @template Levels - Custom level names, inferred from the `levels` option.
+ */
+export type LggsWithLevels<
+	Config extends LggsBaseConfig = LggsBaseConfig,
+	Ps extends readonly LggsPlugin<any>[] = typeof LggsDefaultPlugins,
+	Levels extends string = never,
+> = Lggs<Config, Ps, Levels> & {
+	[K in Exclude<Levels, LggsDefaultLevel>]: (
+		...messages: LggsMessage[]
+	) => LggsWithLevels<Config, Ps, Levels>;
+};
+
 export default Lggs;
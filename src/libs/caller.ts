@@ -0,0 +1,144 @@
+import type { LggsCaller } from "../types";
+
+/**
+ * Stack frame formats, V8 / Bun ("at fn (file:1:2)") and Firefox / Safari ("fn@file:1:2").
+ * The column is missing from some Bun frames.
+ */
+const V8_FRAME = /^\s*at (?:(.+?) \()?(.+?):(\d+)(?::(\d+))?\)?$/;
+const GECKO_FRAME = /^\s*(.*?)@(.+?):(\d+)(?::(\d+))?$/;
+
+/**
+ * Files of the Lggs modules, their frames are never reported as the caller.
+ */
+const internal = new Set<string>();
+
+/**
+ * Callers already resolved, by stack string.
+ */
+const cache = new Map<string, LggsCaller | undefined>();
+const CACHE_SIZE = 1000;
+
+/**
+ * Frames of installed packages, dimmed or collapsed in stack traces.
+ */
+const NODE_MODULES = /[\\/]node_modules[\\/]/;
+
+/**
+ * Path of a frame relative to the working directory, when it is inside it.
+ */
+const relative = (frame: LggsCaller): LggsCaller => {
+	if (typeof process === "undefined" || !process.cwd) return frame;
+	const cwd = `${process.cwd()}/`;
+	return frame.file.startsWith(cwd)
+		? { ...frame, file: frame.file.slice(cwd.length) }
+		: frame;
+};
+
+/**
+ * Parses a stack trace to its frames, unknown lines are ignored.
+ *
+ * @param stack - The `stack` of an error.
+ * @returns The frames, the most recent call first.
+ */
+export function LggsParseStack(stack = ""): LggsCaller[] {
+	const frames: LggsCaller[] = [];
+	for (const line of stack.split("\n")) {
+		const match = V8_FRAME.exec(line) ?? GECKO_FRAME.exec(line);
+		if (!match) continue;
+		frames.push({
+			file: match[2].replace(/^file:\/\//, ""),
+			line: Number(match[3]),
+			column: Number(match[4] ?? 0),
+			function: match[1]?.replace(/^async /, "") || "<anonymous>",
+		});
+	}
+	return frames;
+}
+
+/**
+ * Marks the module calling this function as internal, its frames are skipped by `LggsGetCaller()`.
+ */
+export function LggsInternalFile() {
+	// [0] is this function, [1] the module calling it
+	const frame = LggsParseStack(new Error().stack)[1];
+	if (frame) internal.add(frame.file);
+}
+LggsInternalFile();
+
+/**
+ * Finds the first frame of a stack outside of the Lggs modules.
+ * Results are cached by stack string, the path is relative to the working directory when possible.
+ *
+ * @param stack - The `stack` of an error created in the log call.
+ * @returns The call site, or `undefined` when it can not be found.
+ */
+export function LggsGetCaller(
+	stack = new Error().stack,
+): LggsCaller | undefined {
+	if (!stack) return undefined;
+	if (cache.has(stack)) return cache.get(stack);
+
+	let caller = LggsParseStack(stack).find((frame) => !internal.has(frame.file));
+	if (caller) caller = relative(caller);
+	if (cache.size >= CACHE_SIZE) cache.clear();
+	cache.set(stack, caller && Object.freeze(caller));
+	return caller;
+}
+
+/**
+ * Captures the current stack without the Lggs frames, like `console.trace`.
+ *
+ * @param depth - Maximum number of frames kept.
+ * @returns The frozen frames, the most recent call first.
+ */
+export function LggsGetStack(depth = 10): readonly LggsCaller[] {
+	// room for the Lggs frames skipped below
+	const limit = Error.stackTraceLimit;
+	Error.stackTraceLimit = depth + 20;
+	const stack = new Error().stack;
+	Error.stackTraceLimit = limit;
+
+	return Object.freeze(
+		LggsParseStack(stack)
+			.filter((frame) => !internal.has(frame.file))
+			.slice(0, Math.max(0, depth))
+			.map((frame) => Object.freeze(relative(frame))),
+	);
+}
+
+/**
+ * Formats stack frames as "at function (file:line:column)" lines.
+ *
+ * @param frames - The frames, see `LggsGetStack()`.
+ * @param collapse - Replaces consecutive node_modules frames by a single line.
+ * @param dim - Styles the node_modules lines, e.g. in a gray color.
+ * @returns The indented lines, joined by new lines.
+ */
+export function LggsFormatStack(
+	frames: readonly LggsCaller[],
+	collapse = false,
+	dim: (line: string) => string = (line) => line,
+): string {
+	const lines: string[] = [];
+	for (let i = 0; i < frames.length; i++) {
+		const frame = frames[i];
+		const line = `    at ${frame.function} (${frame.file}:${frame.line}:${frame.column})`;
+		if (!NODE_MODULES.test(frame.file)) {
+			lines.push(line);
+			continue;
+		}
+		if (!collapse) {
+			lines.push(dim(line));
+			continue;
+		}
+		let count = 1;
+		while (i + 1 < frames.length && NODE_MODULES.test(frames[i + 1].file)) {
+			count++;
+			i++;
+		}
+		lines.push(
+			dim(count > 1 ? `    ... ${count} frames in node_modules` : line),
+		);
+	}
+	return lines.join("\n");
+}
@@ -1,20 +1,75 @@
 import type {
 	LggsFormatKitFunction,
 	LggsLevel,
+	LggsLevelOptions,
 	LggsPlugin,
 } from "../types";
 import { LGGS_FORMATKITS } from "./formatkits";
+import type { LggsInspectOptions } from "./inspect";
 
 export type LggsBaseConfig = {
 	level: LggsLevel;
 	title: string;
 	formatKits: LggsFormatKitFunction[];
+	/**
+	 * Fields bound to every message of the logger (request id, tenant, module...).
+	 * Children created with `logger.child()` deep-merge their fields over the parent ones.
+	 */
+	fields: Record<string, unknown>;
+	/**
+	 * Logging levels and their severities.
+	 * Custom levels added here get a logger method, e.g. `logger.fatal(...)`.
+	 *
+	 * @example { fatal: { severity: 0, color: "red70", stderr: true } }
+	 */
+	levels: Partial<Record<LggsLevel, LggsLevelOptions>>;
+	/**
+	 * Captures the call site of every message, shown by the {file} | {line} | {column} | {function} placeholders.
+	 * Stacks are parsed once and cached, but capturing them has a cost on hot paths.
+	 */
+	caller: boolean;
+	/**
+	 * Number of stack frames appended to `trace()` messages.
+	 *
+	 * @default 10
+	 */
+	trace_depth: number;
+	/**
+	 * Collapses consecutive node_modules frames of `trace()` stacks into a single line,
+	 * otherwise they are only dimmed.
+	 */
+	trace_collapse: boolean;
+	/**
+	 * Inspect options of the logged objects (depth, maxArrayLength, maxStringLength, compact, sorted, getters...).
+	 * Applied over the defaults of every output, `console_inspect` and `register_inspect` override them per output.
+	 *
+	 * @example { depth: 2, maxArrayLength: 10, sorted: true }
+	 */
+	inspect: LggsInspectOptions;
+};
+
+/**
+ * Built-in levels definitions.
+ */
+export const LggsDefaultLevels: Record<string, LggsLevelOptions> = {
+	txt: { severity: 1 },
+	error: { severity: 1, stderr: true },
+	warn: { severity: 2, stderr: true },
+	info: { severity: 3 },
+	debug: { severity: 4 },
+	trace: { severity: 5 },
 };
 
 const defaults = {
 	level: "info" as LggsLevel,
 	title: "Lggs",
 	formatKits: LGGS_FORMATKITS,
+	fields: {} as Record<string, unknown>,
+	levels: { ...LggsDefaultLevels },
+	caller: false,
+	trace_depth: 10,
+	trace_collapse: false,
+	inspect: {} as LggsInspectOptions,
 } satisfies LggsBaseConfig;
 
 export default defaults;
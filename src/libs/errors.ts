@@ -0,0 +1,110 @@
+import { LggsFormatStack, LggsParseStack } from "./caller";
+import _inspect, { type LggsInspectOptions } from "./inspect";
+import { colorpik } from "./pallet";
+
+/**
+ * Nested causes and aggregated errors rendered before "[...]" is shown.
+ */
+const MAX_DEPTH = 10;
+
+/**
+ * Keys rendered by the header, the stack or the nested sections.
+ */
+const RENDERED = new Set([
+	"name",
+	"message",
+	"stack",
+	"code",
+	"cause",
+	"errors",
+]);
+
+/**
+ * Indents every line after the first one.
+ */
+const indent = (text: string, spaces = 4) =>
+	text.replace(/\n/g, `\n${" ".repeat(spaces)}`);
+
+/**
+ * Renders an error, or a value thrown in its place.
+ */
+const render = (
+	error: unknown,
+	nocolor: boolean,
+	inspect: LggsInspectOptions | undefined,
+	seen: Set<unknown>,
+	depth: number,
+): string => {
+	if (!(error instanceof Error)) return _inspect(error, nocolor, inspect);
+	if (seen.has(error)) return "[Circular]";
+	if (depth > MAX_DEPTH) return "[...]";
+	seen.add(error);
+
+	const { name, message } = error;
+	const code = (error as { code?: unknown }).code;
+	let header = code !== undefined ? `${name} [${String(code)}]` : name;
+	if (!nocolor) header = colorpik("red50", colorpik("bold", header));
+	const lines = [message ? `${header}: ${message}` : header];
+
+	// frames are parsed so every runtime prints them the same way
+	const frames = LggsParseStack(error.stack);
+	if (frames.length > 0) {
+		lines.push(
+			LggsFormatStack(frames, false, (line) =>
+				nocolor ? line : colorpik("gray", line),
+			),
+		);
+	}
+
+	for (const key of Object.keys(error)) {
+		if (RENDERED.has(key)) continue;
+		const value = (error as unknown as Record<string, unknown>)[key];
+		lines.push(
+			`    ${key}: ${indent(render(value, nocolor, inspect, seen, depth + 1))}`,
+		);
+	}
+
+	const errors = (error as { errors?: unknown }).errors;
+	if (Array.isArray(errors)) {
+		errors.forEach((item, index) => {
+			lines.push(
+				`    [errors][${index}]: ${indent(render(item, nocolor, inspect, seen, depth + 1))}`,
+			);
+		});
+	}
+	if ("cause" in error && error.cause !== undefined) {
+		lines.push(
+			`    [cause]: ${indent(render(error.cause, nocolor, inspect, seen, depth + 1))}`,
+		);
+	}
+
+	seen.delete(error);
+	return lines.join("\n");
+};
+
+/**
+ * Formats an error with its name, code, message, stack, own properties,
+ * aggregated errors (`AggregateError.errors`) and `cause` chain.
+ * The output is the same on every runtime, including browsers where errors are not inspectable.
+ *
+ * @param error - The error to format.
+ * @param nocolor - Disables the colors of the name and the dimmed node_modules frames.
+ * @param inspect - Inspect options of the properties and thrown values.
+ * @returns The formatted error, nested errors are indented.
+ *
+ * @example
+ * ```ts
+ * LggsFormatError(new Error("Request failed", { cause: new Error("ECONNRESET") }), true);
+ * // Error: Request failed
+ * //     at main (src/index.ts:3:7)
+ * //     [cause]: Error: ECONNRESET
+ * //         at main (src/index.ts:3:46)
+ * ```
+ */
+export function LggsFormatError(
+	error: Error,
+	nocolor = false,
+	inspect?: LggsInspectOptions,
+): string {
+	return render(error, nocolor, inspect, new Set(), 0);
+}
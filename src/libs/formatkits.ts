@@ -1,5 +1,6 @@
 import type { LggsFormatKitFunction } from "../types";
-import _inspect from "./inspect";
+import { LggsFormatError } from "./errors";
+import _inspect, { type LggsInspectOptions } from "./inspect";
 import { colorpik, LggsAnsiSpecials, toHexadecimal } from "./pallet";
 
 /**
@@ -214,6 +215,7 @@ export function sprintf(
 	format: string,
 	args: any[],
 	nocolor: boolean,
+	inspect?: LggsInspectOptions,
 ): { result: string; consumed: number };
 export function sprintf(format: string, ...args: any[]): string;
 export function sprintf(
@@ -223,6 +225,9 @@ export function sprintf(
 	const isInternal = Array.isArray(args[0]) && typeof args[1] === "boolean";
 	const actualArgs = isInternal ? args[0] : args;
 	const nocolor = isInternal ? args[1] : false;
+	const inspect: LggsInspectOptions | undefined = isInternal
+		? args[2]
+		: undefined;
 
 	let consumed = 0;
 	const result = format.replace(/%([a-zA-Z%])/g, (match, char) => {
@@ -247,7 +252,9 @@ export function sprintf(
 				}
 			case "o":
 			case "O":
-				return _inspect(arg, nocolor);
+				return arg instanceof Error
+					? LggsFormatError(arg, nocolor, inspect)
+					: _inspect(arg, nocolor, inspect);
 			default:
 				consumed--; // didn't consume
 				return match;
@@ -269,6 +276,7 @@ export function sprintf(
  * @param texts - A string or an array of texts to be formatted.
  * @param extraformats - Additional custom FormatKits.
  * @param nocolor - Determines whether formatting should be disabled (returning plain text).
+ * @param inspect - Inspect options of the objects, `%o` and `%O` included.
  * @returns Returns a formatted string with applied styling rules.
  * @since Lggs v3.0.0
  * @new Fragment/Fragmenter of lggs
@@ -283,6 +291,7 @@ export const LggsFormatKitController = (
 	texts: any | any[],
 	extraformats: LggsFormatKitFunction[] = [],
 	nocolor = false,
+	inspect?: LggsInspectOptions,
 ) => {
 	let inputs = Array.isArray(texts) ? texts : [texts];
 	const tools = [...LGGS_FORMATKITS, ...extraformats];
@@ -292,23 +301,34 @@ export const LggsFormatKitController = (
 	if (inputs.length > 0 && typeof inputs[0] === "string" && inputs.length > 1) {
 		// Simple heuristic: if string contains %, try sprintf
 		// Or always try? Node.js util.format always tries.
-		const { result, consumed } = sprintf(inputs[0], inputs.slice(1), nocolor);
+		const { result, consumed } = sprintf(
+			inputs[0],
+			inputs.slice(1),
+			nocolor,
+			inspect,
+		);
 		output.push(result);
 		// Remove consumed args + format string
 		inputs = inputs.slice(1 + consumed);
 	}
 
 	// Process remaining inputs
+	// formatted errors skip the FormatKits, paths of their stacks often contain "-" and "_" pairs
+	const errors = new Set<number>();
 	inputs.forEach((input: any) => {
 		if (typeof input === "string") {
 			output.push(input);
+		} else if (input instanceof Error) {
+			errors.add(output.length);
+			output.push(LggsFormatError(input, nocolor, inspect));
 		} else {
-			output.push(_inspect(input, nocolor));
+			output.push(_inspect(input, nocolor, inspect));
 		}
 	});
 
 	// Apply FormatKits to all string parts
-	output = output.map((current) => {
+	output = output.map((current, index) => {
+		if (errors.has(index)) return current;
 		let changed = false;
 		let iterations = 0;
 		const max = 10;
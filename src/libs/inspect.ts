@@ -1,6 +1,53 @@
 import { inspect as Inpector } from "node:util";
+import { LggsSerialize } from "./serialize";
 import { Runtime, runtime } from "./utils";
 
+/**
+ * Options of the objects inspection, see `util.inspect`.
+ * `null` removes a limit.
+ */
+export type LggsInspectOptions = {
+	/** Nesting levels shown, deeper objects are shown as [Object]. */
+	depth?: number | null;
+	/** Items of arrays, sets and maps shown. */
+	maxArrayLength?: number | null;
+	/** Characters of strings shown. */
+	maxStringLength?: number | null;
+	/** Inner items joined on a single line, `false` puts every property on its own line. */
+	compact?: boolean | number;
+	/** Line length where the compacted items are broken. */
+	breakLength?: number;
+	/** Sorts the keys of objects, maps and sets. */
+	sorted?: boolean;
+	/** Shows the values of getters. */
+	getters?: boolean;
+};
+
+/**
+ * Default inspect options of the outputs, overridden by the `inspect` config
+ * and the output-specific one (`console_inspect`, `register_inspect`).
+ */
+export const LggsInspectDefaults: Record<
+	"console" | "file",
+	LggsInspectOptions
+> = {
+	console: {
+		depth: 6,
+		maxArrayLength: 100,
+		maxStringLength: 10_000,
+		compact: 3,
+		breakLength: 120,
+	},
+	// one entry per line, large values are still bounded
+	file: {
+		depth: 10,
+		maxArrayLength: 1000,
+		maxStringLength: 100_000,
+		compact: true,
+		breakLength: Infinity,
+	},
+};
+
 const opts = {
 	depth: null,
 	showHidden: false,
@@ -10,45 +57,39 @@ const opts = {
 	compact: false,
 };
 
-const _inspect = (msg: any, nocolor: boolean = false) => {
+const _inspect = (
+	msg: any,
+	nocolor: boolean = false,
+	options: LggsInspectOptions = {},
+) => {
 	switch (runtime) {
-		case Runtime.Node: {
+		// Bun.inspect ignores maxStringLength and the nested maxArrayLength, node:util honors them
+		case Runtime.Node:
+		case Runtime.Bun: {
 			return Inpector(msg, {
 				colors: !nocolor,
 				...opts,
+				...options,
 			});
 		}
-		case Runtime.Bun: {
-			try {
-				// @ts-expect-error @types/Bun not installed
-				return Bun.inspect(msg, {
-					colors: !nocolor,
-					...opts,
-				});
-			} catch (_e) {
-				return String(msg);
-			}
-		}
 		case Runtime.Deno: {
 			try {
+				const settings = { ...opts, ...options };
 				// @ts-expect-error @types/Deno not installed
 				return Deno.inspect(msg, {
 					colors: !nocolor,
-					...opts,
+					...settings,
+					// Deno names of the limits
+					iterableLimit: settings.maxArrayLength ?? Infinity,
+					strAbbreviateSize: settings.maxStringLength ?? Infinity,
 				});
 			} catch (_e) {
-				return String(msg);
+				return LggsSerialize(msg, { colors: !nocolor, ...opts, ...options });
 			}
 		}
 		default: {
-			if (typeof msg === "object") {
-				try {
-					return JSON.stringify(msg, null, 2);
-				} catch {
-					return String(msg);
-				}
-			}
-			return String(msg);
+			// no native inspect (browsers, unknown runtimes)
+			return LggsSerialize(msg, { colors: !nocolor, ...opts, ...options });
 		}
 	}
 };
@@ -1,8 +1,22 @@
-import type { LggsLevel, LggsPluginData } from "../../types";
+import type {
+	LggsCaller,
+	LggsDefaultLevel,
+	LggsLevel,
+	LggsPluginData,
+} from "../../types";
+import { LggsFormatStack } from "../caller";
 import type { LggsBaseConfig } from "../defaults";
 import { LggsFormatKitController } from "../formatkits";
+import { LggsInspectDefaults, type LggsInspectOptions } from "../inspect";
 import { colorpik, type LggsPallet } from "../pallet";
-import { LggsLevelToNumber, Runtime, runtime, timer } from "../utils";
+import {
+	LggsFieldsToString,
+	LggsFormatDuration,
+	LggsLevelToNumber,
+	Runtime,
+	runtime,
+	timer,
+} from "../utils";
 
 /**
  * Lggs Console Default options
@@ -21,9 +35,102 @@ export const ConsolePluginDefault: LggsConsoleConfig = {
 	fallback: "white",
 	disable_colors: false,
 	console: true,
+	collapse: false,
 	colors: {},
 };
 
+/**
+ * Whether the console shows a level with the current configuration.
+ */
+const isLevelEnabled = (
+	config: LggsConsoleConfig & Partial<LggsBaseConfig>,
+	level: LggsLevel,
+) => {
+	if (level === "txt" || !config.console) return false;
+	const logLevel = LggsLevelToNumber(
+		config.console_level ?? (config.level as LggsLevel),
+		config.levels,
+	);
+	return LggsLevelToNumber(level, config.levels) <= logLevel;
+};
+
+/**
+ * Whether the output of a level is a terminal.
+ */
+const isTTY = (isError: boolean): boolean => {
+	switch (runtime) {
+		case Runtime.Deno: {
+			//@ts-ignore Ignore Deno
+			return (isError ? Deno.stderr : Deno.stdout).isTerminal?.() ?? false;
+		}
+		case Runtime.Node:
+		case Runtime.Bun: {
+			return Boolean((isError ? process.stderr : process.stdout).isTTY);
+		}
+		default: {
+			return false;
+		}
+	}
+};
+
+/**
+ * Bytes written to stdout and stderr by anyone, only known on Node.
+ */
+const written = (): number =>
+	runtime === Runtime.Node
+		? (process.stdout.bytesWritten ?? 0) + (process.stderr.bytesWritten ?? 0)
+		: 0;
+
+/**
+ * Collapsed line of the console plugin that wrote last, shared by every logger.
+ */
+let lastLine: object | undefined;
+
+/**
+ * Levels with a method of the same name on the browser console.
+ */
+const NATIVE_LEVELS = ["error", "warn", "info", "debug", "trace"];
+
+/**
+ * Writes a line to stdout or stderr.
+ */
+const write = (level: LggsLevel, message: string, isError: boolean) => {
+	const nmessage = `${message}\n`;
+
+	switch (runtime) {
+		case Runtime.Deno: {
+			const output = new TextEncoder().encode(nmessage);
+			//@ts-ignore Ignore Deno
+			return isError ? Deno.stderr.write(output) : Deno.stdout.write(output);
+		}
+		case Runtime.Node: {
+			//@ts-ignore Ignore Node
+			return isError
+				? process.stderr.write(nmessage)
+				: process.stdout.write(nmessage);
+		}
+		case Runtime.Bun: {
+			//@ts-ignore Ignore Bun
+			return isError ? Bun.write(Bun.stderr, nmessage) : Bun.write(Bun.stdout, nmessage);
+		}
+		case Runtime.Browser: {
+			// Navegador usa console para logging, custom levels have no console method
+			const method = level.toLowerCase();
+			if (NATIVE_LEVELS.includes(method)) {
+				console[method as "log"](message);
+			} else if (isError) {
+				console.error(message);
+			} else {
+				console.log(message);
+			}
+			break;
+		}
+		default: {
+			throw new Error("Unknown environment");
+		}
+	}
+};
+
 /**
  * Lggs Console plugin
  *
@@ -33,97 +140,167 @@ export const ConsolePluginDefault: LggsConsoleConfig = {
  */
 export const ConsolePlugin = (
 	opts: LggsConsoleOptions = {},
-): LggsPluginData<LggsConsoleConfig & Partial<LggsBaseConfig>> => ({
-	ident: "lggs-console",
-	default: ConsolePluginDefault,
-	onInit: opts.onInit,
-	onPreMessage: (config, level, messages) => {
-		if (level === "txt") return undefined;
-		const logLevel = LggsLevelToNumber(
-			config.console_level ?? (config.level as LggsLevel),
-		);
-		const msgLevel = LggsLevelToNumber(level);
-		if (!config.console || msgLevel > logLevel) return undefined;
-
-		return opts.onPreMessage
-			? opts.onPreMessage(config, level, messages)
-			: messages;
-	},
-	onMessage(config, level, messages) {
-		config.level = config.console_level ? config.console_level : config.level;
-		if (opts.onMessage) opts.onMessage(config, level, messages);
-		let message = LggsFormatKitController(
-			config.format,
-			config.formatKits,
-			config.disable_colors,
-		);
-		message = timer(message).format;
-
-		const disabled = config.disable_colors;
-		if (message.includes("{title}")) {
-			message = message.replace(
-				/{title}/g,
-				disabled
-					? (config.title as string)
-					: colorpik(config.color, config.title as string, config.colors),
-			);
-		}
-		if (message.includes("{status}")) {
-			message = message.replace(
-				/{status}/g,
-				disabled
-					? level
-					: colorpik(
-						config.status[level],
-						colorpik("bold", level),
-						config.colors,
-					),
-			);
+): LggsPluginData<LggsConsoleConfig & Partial<LggsBaseConfig>> => {
+	/** Collapse key of the message being sent, set by `onMessage`. */
+	let key = "";
+	/** Last line written, with its repeat count. */
+	let last:
+		| {
+				key: string;
+				message: string;
+				isError: boolean;
+				count: number;
+				written: number;
+		  }
+		| undefined;
+
+	/** Writes the repeat count of the last line on outputs that can not be rewritten. */
+	const summarize = () => {
+		if (last && last.count > 1 && !isTTY(last.isError)) {
+			write("info", `${last.message} (x${last.count})`, last.isError);
 		}
-		if (message.includes("{message}")) {
-			message = message.replace(
-				/{message}/g,
-				LggsFormatKitController(
+		last = undefined;
+	};
+
+	return {
+		ident: "lggs-console",
+		default: ConsolePluginDefault,
+		onInit: opts.onInit,
+		isLevelEnabled,
+		onPreMessage: (config, level, messages, record) => {
+			if (!isLevelEnabled(config, level)) return undefined;
+
+			return opts.onPreMessage
+				? opts.onPreMessage(config, level, messages, record)
+				: messages;
+		},
+		onMessage(config, level, messages, record) {
+			if (opts.onMessage) {
+				// the shared config is never mutated, the console level is exposed on a copy
+				opts.onMessage(
+					config.console_level
+						? { ...config, level: config.console_level }
+						: config,
+					level,
 					messages,
-					config.formatKits,
-					config.disable_colors,
-				),
+					record,
+				);
+			}
+			let message = LggsFormatKitController(
+				config.format,
+				config.formatKits,
+				config.disable_colors,
 			);
-		}
-		return message;
-	},
-	onSend(config, level, message) {
-		if (opts.onSend) opts.onSend(config, level, message);
-		const nmessage = `${message}\n`;
-		const isError = ["error", "warn"].includes(level.toLowerCase());
-
-		switch (runtime) {
-			case Runtime.Deno: {
-				const output = new TextEncoder().encode(nmessage);
-				//@ts-ignore Ignore Deno
-				return isError ? Deno.stderr.write(output) : Deno.stdout.write(output);
+			message = timer(message, record.timestamp).format;
+			let text = LggsFormatKitController(
+				messages,
+				config.formatKits,
+				config.disable_colors,
+				{
+					...LggsInspectDefaults.console,
+					...config.inspect,
+					...config.console_inspect,
+					...record.inspect,
+				},
+			);
+			if (record.stack) {
+				text += `\n${LggsFormatStack(
+					record.stack,
+					config.trace_collapse,
+					(line) =>
+						config.disable_colors
+							? line
+							: colorpik("gray", line, config.colors),
+				)}`;
 			}
-			case Runtime.Node: {
-				//@ts-ignore Ignore Node
-				return isError
-					? process.stderr.write(nmessage)
-					: process.stdout.write(nmessage);
+			if (record.group) text = text.replace(/^/gm, "  ".repeat(record.group));
+			key = `${level}\0${record.title}\0${text}`;
+
+			const disabled = config.disable_colors;
+			if (message.includes("{title}")) {
+				message = message.replace(
+					/{title}/g,
+					disabled
+						? record.title
+						: colorpik(config.color, record.title, config.colors),
+				);
 			}
-			case Runtime.Bun: {
-				//@ts-ignore Ignore Bun
-				return isError ? Bun.write(Bun.stderr, nmessage) : Bun.write(Bun.stdout, nmessage);
+			if (message.includes("{status}")) {
+				message = message.replace(
+					/{status}/g,
+					disabled
+						? level
+						: colorpik(
+								config.status[level] ??
+									config.levels?.[level]?.color ??
+									config.fallback,
+								colorpik("bold", level),
+								config.colors,
+							),
+				);
 			}
-			case Runtime.Browser: {
-				// Navegador usa console para logging
-				console[level.toLowerCase() as "log"](message);
-				break;
+			if (message.includes("{fields}")) {
+				message = message.replace(
+					/{fields}/g,
+					LggsFieldsToString(record.fields),
+				);
 			}
-			default: {
-				throw new Error("Unknown environment");
+			message = message.replace(/{(file|line|column|function)}/g, (_, key) =>
+				record.caller ? String(record.caller[key as keyof LggsCaller]) : "",
+			);
+			if (message.includes("{duration}")) {
+				message = message.replace(
+					/{duration}/g,
+					record.duration !== undefined
+						? LggsFormatDuration(record.duration)
+						: "",
+				);
 			}
-		}
-	},
-});
+			if (message.includes("{message}")) {
+				message = message.replace(/{message}/g, () => text);
+			}
+			return message;
+		},
+		onSend(config, level, message, record) {
+			if (opts.onSend) opts.onSend(config, level, message, record);
+			const isError =
+				config.levels?.[level]?.stderr ??
+				["error", "warn"].includes(level.toLowerCase());
+
+			if (config.collapse) {
+				// another writer printed after the line, it can not be rewritten in place
+				if (
+					last &&
+					isTTY(last.isError) &&
+					(lastLine !== last || last.written !== written())
+				) {
+					last = undefined;
+				}
+				if (last && last.key === key) {
+					last.count++;
+					// rewrites the previous message in place, other outputs print a summary once it changes
+					if (!isTTY(isError)) return;
+					const lines = last.message.split("\n").length;
+					const result = write(
+						level,
+						`\x1b[${lines}A\x1b[2K${last.message} (x${last.count})`,
+						isError,
+					);
+					last.written = written();
+					return result;
+				}
+				summarize();
+				last = { key, message, isError, count: 1, written: 0 };
+			}
+			const result = write(level, message, isError);
+			lastLine = config.collapse ? last : undefined;
+			if (last) last.written = written();
+			return result;
+		},
+		onFlush: () => summarize(),
+		onClose: () => summarize(),
+	};
+};
 
 export type LggsConsoleOptions = {
 	onPreMessage?: LggsPluginData<LggsConsoleConfig>["onPreMessage"];
@@ -136,7 +313,9 @@ export type LggsConsoleConfig = {
 	/**
 	 * Format log Message, Console print.
 	 *
-	 * Main Args:  {status} | {message} | {title}
+	 * Main Args:  {status} | {message} | {title} | {fields} | {duration}
+	 *
+	 * Caller Args: {file} | {line} | {column} | {function} (with `caller` enabled)
 	 *
 	 * Timer Args: {day} | {month} | {year} | {hours} | {minutes}| {seconds} | {milliseconds}
 	 *
@@ -149,9 +328,16 @@ export type LggsConsoleConfig = {
 	 */
 	console_level?: LggsLevel;
 	/**
-	 * Status colors
+	 * Inspect options of the objects printed in the console, over the `inspect` ones
+	 *
+	 * @default { depth: 6, maxArrayLength: 100, maxStringLength: 10000, compact: 3, breakLength: 120 }
 	 */
-	status: Record<LggsLevel, keyof typeof LggsPallet>;
+	console_inspect?: LggsInspectOptions;
+	/**
+	 * Status colors, custom levels without color here use their `levels` color
+	 */
+	status: Record<LggsDefaultLevel, keyof typeof LggsPallet> &
+		Partial<Record<LggsLevel, keyof typeof LggsPallet>>;
 	/**
 	 * Add new Colors code(ansi or rgb code colors), used in logs functions,
 	 * e.g:
@@ -191,6 +377,12 @@ export type LggsConsoleConfig = {
 	 * Allows show logs in terminal
 	 */
 	console: boolean;
+	/**
+	 * Collapses consecutive identical messages into one line with a repeat counter `(x42)`.
+	 * The line is updated in place on terminals, other outputs get a summary line once the message changes.
+	 * A line printed in between by another logger, or by any other writer on Node, starts a new count.
+	 */
+	collapse: boolean;
 	/**
 	 * Color of title
 	 */
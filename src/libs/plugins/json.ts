@@ -0,0 +1,230 @@
+import fs from "node:fs";
+import path from "node:path";
+import type {
+	LggsLevel,
+	LggsMessage,
+	LggsPluginData,
+	LggsRecord,
+} from "../../types";
+import { LggsFormatStack } from "../caller";
+import type { LggsBaseConfig } from "../defaults";
+import { LggsFormatKitController } from "../formatkits";
+import { LggsInspectDefaults } from "../inspect";
+import { LggsLevelToNumber, Runtime, runtime } from "../utils";
+
+/**
+ * Lggs Json Default options
+ */
+export const JsonPluginDefault: LggsJsonConfig = {
+	json: true,
+	json_keys: {
+		time: "time",
+		level: "level",
+		msg: "msg",
+		title: "title",
+	},
+	json_timestamp: "iso",
+};
+
+/**
+ * Copies an error with the keys `LggsFormatError` renders, including the non-enumerable ones.
+ * The errors of `errors` and `cause` are copied in turn when the replacer reaches them.
+ */
+const errorToJson = (error: Error) => {
+	const errors = (error as { errors?: unknown }).errors;
+	return {
+		...error,
+		name: error.name,
+		message: error.message,
+		stack: error.stack,
+		...(Array.isArray(errors) ? { errors } : {}),
+		...("cause" in error && error.cause !== undefined
+			? { cause: error.cause }
+			: {}),
+	};
+};
+
+/**
+ * Serializes a value to JSON, replacing circular references and bigints.
+ * Only references to an ancestor are circular, repeated references are written again.
+ */
+const stringify = (value: unknown) => {
+	/** Objects being written, from the root to the current one, with the value written in their place. */
+	const ancestors: { source: object; written: object }[] = [];
+	return JSON.stringify(value, function (_key, current) {
+		if (typeof current === "bigint") return current.toString();
+		if (typeof current !== "object" || current === null) return current;
+
+		// `this` is the object holding the key, the ancestors after it are done
+		while (ancestors.length > 0 && ancestors.at(-1)?.written !== this) {
+			ancestors.pop();
+		}
+		if (ancestors.some((ancestor) => ancestor.source === current)) {
+			return "[Circular]";
+		}
+		const written = current instanceof Error ? errorToJson(current) : current;
+		ancestors.push({ source: current, written });
+		return written;
+	});
+};
+
+/**
+ * Builds the JSON object of a record.
+ * Bound fields are placed at the top level, without overriding the main keys.
+ * The error of the record is written with its stack under `error`, the message only keeps its name and message.
+ */
+const toJson = (
+	config: LggsJsonConfig & Partial<LggsBaseConfig>,
+	record: LggsRecord,
+	messages: LggsMessage[],
+) => {
+	const keys = config.json_keys;
+	const { error } = record;
+	const writesError =
+		error !== undefined &&
+		!Object.values(keys).includes("error") &&
+		!("error" in record.fields);
+	const summary = error?.message
+		? `${error.name}: ${error.message}`
+		: error?.name;
+	// format kits are applied with nocolor, stripping markup like [text].red and *bold*
+	const message = LggsFormatKitController(
+		writesError
+			? messages.map((item) => (item === error ? summary : item))
+			: messages,
+		config.formatKits,
+		true,
+		{ ...LggsInspectDefaults.file, ...config.inspect, ...record.inspect },
+	);
+	const output: Record<string, unknown> = {
+		[keys.time]:
+			config.json_timestamp === "epoch"
+				? record.timestamp
+				: new Date(record.timestamp).toISOString(),
+		[keys.level]: record.level,
+		[keys.title]: record.title,
+		[keys.msg]: message,
+	};
+	for (const [key, value] of Object.entries(record.fields)) {
+		if (!(key in output)) output[key] = value;
+	}
+	if (writesError) output.error = error;
+	if (record.duration !== undefined && !("duration" in output)) {
+		output.duration = record.duration;
+	}
+	if (record.stack && !("stack" in output)) {
+		output.stack = LggsFormatStack(record.stack, config.trace_collapse);
+	}
+	return stringify(output);
+};
+
+/**
+ * Whether a level is written with the current configuration.
+ */
+const isLevelEnabled = (
+	config: LggsJsonConfig & Partial<LggsBaseConfig>,
+	level: LggsLevel,
+) => {
+	if (!config.json) return false;
+	const logLevel = LggsLevelToNumber(
+		config.json_level ?? (config.level as LggsLevel),
+		config.levels,
+	);
+	return LggsLevelToNumber(level, config.levels) <= logLevel;
+};
+
+/**
+ * Lggs Json plugin
+ *
+ * Allow lggs write machine-readable logs, one JSON object per line (NDJSON)
+ *
+ * @version 1.0.0
+ */
+export const JsonPlugin = (
+	opts: LggsJsonOptions = {},
+): LggsPluginData<LggsJsonConfig & Partial<LggsBaseConfig>> => ({
+	ident: "lggs-json",
+	default: JsonPluginDefault,
+	onInit: opts.onInit,
+	isLevelEnabled,
+	onPreMessage: (config, level, messages, record) => {
+		if (!isLevelEnabled(config, level)) return undefined;
+
+		return opts.onPreMessage
+			? opts.onPreMessage(config, level, messages, record)
+			: messages;
+	},
+	onMessage(config, level, messages, record) {
+		if (opts.onMessage) opts.onMessage(config, level, messages, record);
+		return toJson(config, record, messages);
+	},
+	onSend(config, level, message, record) {
+		if (opts.onSend) opts.onSend(config, level, message, record);
+		const nmessage = `${message}\n`;
+
+		if (config.json_file) {
+			const folder = path.dirname(config.json_file);
+			if (!fs.existsSync(folder)) fs.mkdirSync(folder, { recursive: true });
+			fs.appendFileSync(config.json_file, nmessage);
+			return;
+		}
+
+		switch (runtime) {
+			case Runtime.Deno: {
+				//@ts-ignore Ignore Deno
+				return Deno.stdout.write(new TextEncoder().encode(nmessage));
+			}
+			case Runtime.Node: {
+				return process.stdout.write(nmessage);
+			}
+			case Runtime.Bun: {
+				//@ts-ignore Ignore Bun
+				return Bun.write(Bun.stdout, nmessage);
+			}
+			default: {
+				throw new Error("Unknown environment");
+			}
+		}
+	},
+});
+
+export type LggsJsonOptions = {
+	onPreMessage?: LggsPluginData<LggsJsonConfig>["onPreMessage"];
+	onMessage?: LggsPluginData<LggsJsonConfig>["onMessage"];
+	onSend?: LggsPluginData<LggsJsonConfig>["onSend"];
+	onInit?: LggsPluginData<LggsJsonConfig>["onInit"];
+};
+
+export type LggsJsonConfig = {
+	/**
+	 * Allows write JSON logs
+	 */
+	json: boolean;
+	/**
+	 * Lggs Level
+	 * Json-specific level will be used
+	 */
+	json_level?: LggsLevel;
+	/**
+	 * Key names used in each JSON line.
+	 * Bound fields are written next to them, without overriding them.
+	 *
+	 * @default { time: "time", level: "level", msg: "msg", title: "title" }
+	 */
+	json_keys: {
+		time: string;
+		level: string;
+		msg: string;
+		title: string;
+	};
+	/**
+	 * Timestamp format, "iso" (2024-01-31T10:00:00.000Z) or "epoch" (milliseconds)
+	 *
+	 * @default "iso"
+	 */
+	json_timestamp: "iso" | "epoch";
+	/**
+	 * File path where JSON lines are appended, if not set, lines are written to stdout
+	 */
+	json_file?: string;
+};
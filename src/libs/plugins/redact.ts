@@ -0,0 +1,260 @@
+import type { LggsPluginData, LggsRecord } from "../../types";
+import type { LggsBaseConfig } from "../defaults";
+
+/**
+ * Default credit card pattern, its matches are only masked when their Luhn checksum is valid.
+ */
+const CARD_PATTERN = /\b(?:\d[ -]?){12,18}\d\b/g;
+
+/**
+ * Lggs Redact Default options
+ */
+export const RedactPluginDefault: LggsRedactConfig = {
+	redact: true,
+	redact_keys: [
+		"password",
+		"passwd",
+		"secret",
+		"token",
+		"apiKey",
+		"api_key",
+		"headers.authorization",
+		"headers.cookie",
+	],
+	redact_patterns: [
+		// credit card numbers
+		CARD_PATTERN,
+		// JSON Web Tokens
+		/\beyJ[\w-]+\.[\w-]+\.[\w-]+/g,
+		// emails
+		/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+	],
+	redact_censor: "[REDACTED]",
+};
+
+/**
+ * Splits the key paths, e.g. "headers.authorization" -> ["headers", "authorization"].
+ */
+const parsePaths = (keys: string[]) =>
+	keys.map((key) => key.toLowerCase().split("."));
+
+/**
+ * Whether the end of a key path matches one of the redacted paths, `*` matches any key.
+ */
+const matchesPath = (current: string[], paths: string[][]) =>
+	paths.some(
+		(keys) =>
+			keys.length <= current.length &&
+			keys.every(
+				(key, index) =>
+					key === "*" || key === current[current.length - keys.length + index],
+			),
+	);
+
+/**
+ * Whether the digits of a number pass the Luhn checksum of payment cards.
+ */
+const isLuhnValid = (text: string) => {
+	const digits = text.replace(/\D/g, "");
+	let sum = 0;
+	for (let index = 0; index < digits.length; index++) {
+		let digit = Number(digits[digits.length - 1 - index]);
+		// every second digit from the right is doubled
+		if (index % 2 === 1) digit = digit * 2 > 9 ? digit * 2 - 9 : digit * 2;
+		sum += digit;
+	}
+	return sum % 10 === 0;
+};
+
+/**
+ * Replaces every pattern match of a string.
+ */
+const redactString = (value: string, patterns: RegExp[], censor: string) =>
+	patterns.reduce(
+		(text, pattern) =>
+			// ids, timestamps and phone numbers also match the card pattern
+			pattern.source === CARD_PATTERN.source
+				? text.replace(pattern, (match) =>
+						isLuhnValid(match) ? censor : match,
+					)
+				: text.replace(pattern, censor),
+		value,
+	);
+
+/**
+ * Copies an object with its prototype and own properties, made writable (frozen objects included).
+ */
+const copyObject = (value: object): object => {
+	const descriptors = Object.getOwnPropertyDescriptors(value);
+	for (const key of Reflect.ownKeys(descriptors)) {
+		const descriptor = descriptors[key as string];
+		descriptor.configurable = true;
+		if ("value" in descriptor) descriptor.writable = true;
+	}
+	return Object.create(Object.getPrototypeOf(value), descriptors);
+};
+
+/**
+ * Returns a redacted copy of a value, or the value itself when nothing was redacted.
+ * User objects are never mutated, class instances keep their prototype.
+ */
+const redactValue = (
+	value: unknown,
+	path: string[],
+	context: {
+		paths: string[][];
+		patterns: RegExp[];
+		censor: string;
+		seen: WeakMap<object, unknown>;
+	},
+): unknown => {
+	if (typeof value === "string") {
+		return redactString(value, context.patterns, context.censor);
+	}
+	if (!value || typeof value !== "object") return value;
+	if (
+		value instanceof Date ||
+		value instanceof RegExp ||
+		ArrayBuffer.isView(value)
+	) {
+		return value;
+	}
+	if (context.seen.has(value)) return context.seen.get(value);
+	context.seen.set(value, value);
+
+	// entries of maps and sets are copied into a new collection when one of them is redacted
+	if (value instanceof Map) {
+		let changed = false;
+		const entries = [...value].map(([key, current]) => {
+			const keyPath = [...path, String(key).toLowerCase()];
+			const redactedKey = redactValue(key, path, context);
+			const redacted =
+				current !== undefined && matchesPath(keyPath, context.paths)
+					? context.censor
+					: redactValue(current, keyPath, context);
+			if (redactedKey !== key || redacted !== current) changed = true;
+			return [redactedKey, redacted] as const;
+		});
+		const copy = changed ? new Map(entries) : value;
+		context.seen.set(value, copy);
+		return copy;
+	}
+	if (value instanceof Set) {
+		let changed = false;
+		const items = [...value].map((current, index) => {
+			const redacted = redactValue(current, [...path, String(index)], context);
+			if (redacted !== current) changed = true;
+			return redacted;
+		});
+		const copy = changed ? new Set(items) : value;
+		context.seen.set(value, copy);
+		return copy;
+	}
+
+	let copy: object | undefined;
+	// Error message and stack are own properties but not enumerable
+	const keys =
+		value instanceof Error
+			? [...new Set(["message", "stack", ...Object.keys(value)])]
+			: Object.keys(value);
+	for (const key of keys) {
+		const current = (value as Record<string, unknown>)[key];
+		const keyPath = [...path, key.toLowerCase()];
+		const redacted =
+			current !== undefined && matchesPath(keyPath, context.paths)
+				? context.censor
+				: redactValue(current, keyPath, context);
+		if (redacted === current) continue;
+		if (!copy) {
+			copy = Array.isArray(value) ? [...value] : copyObject(value);
+			context.seen.set(value, copy);
+		}
+		Object.defineProperty(copy, key, {
+			value: redacted,
+			writable: true,
+			enumerable:
+				Object.getOwnPropertyDescriptor(copy, key)?.enumerable ?? true,
+			configurable: true,
+		});
+	}
+	return copy ?? value;
+};
+
+/**
+ * Lggs Redact plugin
+ *
+ * Middleware masking sensitive data (keys and patterns) in messages and fields,
+ * before any output formats or writes them
+ *
+ * @version 1.0.0
+ */
+export const RedactPlugin = (
+	opts: LggsRedactOptions = {},
+): LggsPluginData<LggsRedactConfig & Partial<LggsBaseConfig>> => ({
+	ident: "lggs-redact",
+	default: RedactPluginDefault,
+	// runs after the other middlewares, so data they add is redacted too
+	priority: -100,
+	onInit: opts.onInit,
+	onRecord(config, record) {
+		if (!config.redact) return record;
+		const context = {
+			paths: parsePaths(config.redact_keys),
+			patterns: config.redact_patterns.map((pattern) =>
+				typeof pattern === "string"
+					? new RegExp(pattern, "g")
+					: pattern.global
+						? pattern
+						: new RegExp(pattern.source, `${pattern.flags}g`),
+			),
+			censor: config.redact_censor,
+			seen: new WeakMap<object, unknown>(),
+		};
+		const args = record.args.map((arg) => redactValue(arg, [], context));
+		const fields = redactValue(record.fields, [], context) as Record<
+			string,
+			unknown
+		>;
+		const redacted: LggsRecord =
+			fields === record.fields &&
+			args.every((arg, index) => arg === record.args[index])
+				? record
+				: {
+						...record,
+						args,
+						fields,
+						error: args.find((arg) => arg instanceof Error),
+					};
+
+		return opts.onRecord ? opts.onRecord(config, redacted) : redacted;
+	},
+});
+
+export type LggsRedactOptions = {
+	onRecord?: LggsPluginData<LggsRedactConfig>["onRecord"];
+	onInit?: LggsPluginData<LggsRedactConfig>["onInit"];
+};
+
+export type LggsRedactConfig = {
+	/**
+	 * Allows redact sensitive data
+	 */
+	redact: boolean;
+	/**
+	 * Key paths whose values are replaced, compared case-insensitively with the end of the key path.
+	 * `*` matches any key, e.g. "password" | "*.token" | "headers.authorization"
+	 */
+	redact_keys: string[];
+	/**
+	 * Patterns masked in every string (messages and values, map and set entries included),
+	 * e.g. credit card numbers (with a valid Luhn checksum), JWTs and emails.
+	 * Every match is replaced, the "g" flag is added when missing.
+	 */
+	redact_patterns: (RegExp | string)[];
+	/**
+	 * Text that replaces the redacted values
+	 *
+	 * @default "[REDACTED]"
+	 */
+	redact_censor: string;
+};
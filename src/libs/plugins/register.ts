@@ -1,9 +1,20 @@
 import fs from "node:fs";
 import path from "node:path";
-import type { LggsLevel, LggsPluginData } from "../../types";
+import zlib from "node:zlib";
+import type { LggsCaller, LggsLevel, LggsPluginData } from "../../types";
+import { LggsFormatStack } from "../caller";
 import type { LggsBaseConfig } from "../defaults";
 import { LggsFormatKitController } from "../formatkits";
-import { LggsLevelToNumber, timer } from "../utils";
+import { LggsInspectDefaults, type LggsInspectOptions } from "../inspect";
+import {
+	LggsFieldsToString,
+	LggsFormatDuration,
+	LggsLevelToNumber,
+	LggsParseDuration,
+	LggsParseSize,
+	timer,
+} from "../utils";
+import { LggsFileWriter } from "../writer";
 
 /**
  * Lggs Register Default options
@@ -13,11 +24,33 @@ export const RegisterPluginDefault: LggsRegisterConfig = {
 	register_del: true,
 	register_limit: 10,
 	register_dir: "./logs",
+	register_buffer: false,
+	register_buffer_size: 64 * 1024,
+	register_flush_interval: 1000,
+	register_max_size: 0,
+	register_max_age: 0,
+	register_compress: false,
+	register_dry_run: false,
 	register_locale_file: "{register_dir}",
 	register_filename: "{day}_{month}_{year}.{ext}",
 	register_format:
 		"[ {day}/{month}/{year}-{hours}:{minutes}:{seconds} ] [ _.{title}._ ] {message}",
 };
+/**
+ * Whether a level is registered with the current configuration.
+ */
+const isLevelEnabled = (
+	config: LggsRegisterConfig & Partial<LggsBaseConfig>,
+	level: LggsLevel,
+) => {
+	if (!config.register) return false;
+	const logLevel = LggsLevelToNumber(
+		config.register_level ?? (config.level as LggsLevel),
+		config.levels,
+	);
+	return LggsLevelToNumber(level, config.levels) <= logLevel;
+};
+
 /**
  * Lggs Register plugin
  *
@@ -33,81 +66,380 @@ export const RegisterPlugin = (
 	ident: "lggs-register",
 	default: RegisterPluginDefault,
 	onInit: opts.onInit,
-	onPreMessage: (config, level, messages) => {
-		const logLevel = LggsLevelToNumber(
-			config.register_level ?? (config.level as LggsLevel),
-		);
-		const globalLevel = LggsLevelToNumber(config.level as LggsLevel);
-		if (!config.register || logLevel < globalLevel) return undefined;
+	isLevelEnabled,
+	onPreMessage: (config, level, messages, record) => {
+		if (!isLevelEnabled(config, level)) return undefined;
 
 		return opts.onPreMessage
-			? opts.onPreMessage(config, level, messages)
+			? opts.onPreMessage(config, level, messages, record)
 			: messages;
 	},
-	onMessage(config, level, messages) {
-		if (opts.onMessage) opts.onMessage(config, level, messages);
+	onMessage(config, level, messages, record) {
+		if (opts.onMessage) opts.onMessage(config, level, messages, record);
 		let message = config.register_format;
-		message = timer(message).format;
+		message = timer(message, record.timestamp).format;
 		if (message.includes("{title}")) {
-			message = message.replace(/{title}/g, config.title as string);
+			message = message.replace(/{title}/g, record.title);
 		}
 		if (message.includes("{status}")) {
 			message = message.replace(/{status}/g, level);
 		}
-		if (message.includes("{message}")) {
+		if (message.includes("{fields}")) {
+			message = message.replace(/{fields}/g, LggsFieldsToString(record.fields));
+		}
+		message = message.replace(/{(file|line|column|function)}/g, (_, key) =>
+			record.caller ? String(record.caller[key as keyof LggsCaller]) : "",
+		);
+		if (message.includes("{duration}")) {
 			message = message.replace(
-				/{message}/g,
-				LggsFormatKitController(messages, config.formatKits, true),
+				/{duration}/g,
+				record.duration !== undefined
+					? LggsFormatDuration(record.duration)
+					: "",
 			);
 		}
+		if (message.includes("{message}")) {
+			let text = LggsFormatKitController(messages, config.formatKits, true, {
+				...LggsInspectDefaults.file,
+				...config.inspect,
+				...config.register_inspect,
+				...record.inspect,
+			});
+			if (record.stack) {
+				text += `\n${LggsFormatStack(record.stack, config.trace_collapse)}`;
+			}
+			if (record.group) text = text.replace(/^/gm, "  ".repeat(record.group));
+			message = message.replace(/{message}/g, () => text);
+		}
 		return message;
 	},
-	onSend(config, level, message) {
-		if (opts.onSend) opts.onSend(config, level, message);
+	onSend(config, level, message, record) {
+		if (opts.onSend) opts.onSend(config, level, message, record);
 		let filepath = config.register_locale_file.replace(
 			/{register_dir}/g,
 			config.register_dir,
 		);
-		filepath = filepath.replace(/{title}/g, config.title as string);
+		filepath = filepath.replace(/{title}/g, record.title);
 		filepath = filepath.replace(/{status}/g, level);
-		const logFileName = timer(config.register_filename)
+		const logFileName = timer(config.register_filename, record.timestamp)
 			.format.replace(/{status}/g, level)
+			.replace(/{title}/g, record.title)
 			.replace(/{ext}/g, "log");
-
 		const logFilePath = path.join(filepath, logFileName);
-		const logFolderPath = path.resolve(config.register_dir);
-		if (!fs.existsSync(logFolderPath)) {
-			fs.mkdirSync(logFolderPath, { recursive: true });
+		const context: LggsRegisterCleanup = {
+			folder: filepath,
+			file: logFileName,
+			pattern: ownedFiles(config.register_filename, level, record.title),
+			config,
+			onCleanup: opts.onCleanup,
+		};
+
+		const line = `${message}\n`;
+		// one writer per folder and filename template, a new file means a rotation
+		const key = `${filepath}\0${context.pattern.source}`;
+		let writer = writers.get(key);
+		if (!writer || writer.file !== logFilePath) {
+			if (writer) writer.close().catch(warn);
+			writer = new LggsFileWriter(logFilePath, {
+				buffered: config.register_buffer,
+				bufferSize: config.register_buffer_size,
+				flushInterval: config.register_flush_interval,
+			});
+			writers.set(key, writer);
+			writer.write(line);
+			retention(context);
+			return;
 		}
-		fs.appendFileSync(logFilePath, `${message}\n`);
-
-		if (config.register_del && config.register_limit > 0) {
-			const logFilesPattern = /.log/;
-			const logFiles = fs
-				.readdirSync(filepath)
-				.filter((file) => logFilesPattern.test(file))
-				.sort((a, b) => {
-					const aStat = fs.statSync(path.join(filepath, a));
-					const bStat = fs.statSync(path.join(filepath, b));
-					return aStat.mtime.getTime() - bStat.mtime.getTime();
+
+		const maxSize = LggsParseSize(config.register_max_size);
+		if (
+			maxSize > 0 &&
+			writer.size > 0 &&
+			writer.size + Buffer.byteLength(line) > maxSize
+		) {
+			const file = writer.file;
+			if (config.register_buffer) {
+				// the cleanup is part of the rotation, the next one waits for both
+				const rotation = writer.rotate(async () => {
+					const rotated = roll(file);
+					if (rotated && config.register_compress) {
+						await compressAsync(rotated);
+					}
+					await cleanupAsync(context);
 				});
-			const filesToDelete = logFiles.slice(
-				0,
-				logFiles.length - config.register_limit,
-			); // Get the oldest files to delete
-			filesToDelete.forEach((file) => {
-				const filePath = path.join(filepath, file);
-				fs.unlinkSync(filePath);
+				// written to the new file once the rotation is done
+				writer.write(line);
+				return rotation;
+			}
+			writer.rotate(() => {
+				const rotated = roll(file);
+				if (rotated && config.register_compress) compress(rotated);
+				cleanup(context);
 			});
 		}
+		writer.write(line);
 	},
+	onFlush: () => RegisterPluginFlush(),
+	onClose: () => RegisterPluginClose(),
 });
 
+/**
+ * Reports the failure of a background task (file close, retention cleanup), nothing awaits it.
+ */
+const warn = (error: Error) =>
+	process.emitWarning(`Lggs register: ${error.message}`, "LggsWarning");
+
+/**
+ * Writers currently open, by folder and filename template.
+ */
+const writers = new Map<string, LggsFileWriter>();
+
+/**
+ * Name of a file rolled by size, e.g. "app.log" -> "app.2.log".
+ */
+const rotatedName = (file: string, index: number) => {
+	const ext = path.extname(file);
+	return ext
+		? `${file.slice(0, -ext.length)}.${index}${ext}`
+		: `${file}.${index}`;
+};
+
+/**
+ * Index of a file rolled by size, 0 for the current file: "app.2.log" -> 2.
+ */
+const rollIndex = (file: string) =>
+	Number(/\.(\d+)(?:\.[^.\d]+)?(?:\.gz)?$/.exec(file)?.[1] ?? 0);
+
+/**
+ * Rolls a file by size: "app.1.log" -> "app.2.log", ..., "app.log" -> "app.1.log".
+ * Compressed files ("app.1.log.gz") are shifted as well.
+ *
+ * @returns The path of the rolled file, or `undefined` if the file does not exist.
+ */
+const roll = (file: string) => {
+	// nothing was written since the last roll
+	if (!fs.existsSync(file)) return undefined;
+	const exists = (name: string) =>
+		fs.existsSync(name) || fs.existsSync(`${name}.gz`);
+	let last = 1;
+	while (exists(rotatedName(file, last))) last++;
+	for (let index = last - 1; index >= 1; index--) {
+		for (const suffix of ["", ".gz"]) {
+			const from = rotatedName(file, index) + suffix;
+			if (fs.existsSync(from)) {
+				fs.renameSync(from, rotatedName(file, index + 1) + suffix);
+			}
+		}
+	}
+	const rotated = rotatedName(file, 1);
+	fs.renameSync(file, rotated);
+	return rotated;
+};
+
+/**
+ * Compresses a rolled file with gzip ("app.1.log" -> "app.1.log.gz").
+ */
+const compress = (file: string) => {
+	fs.writeFileSync(`${file}.gz`, zlib.gzipSync(fs.readFileSync(file)));
+	fs.unlinkSync(file);
+};
+
+/**
+ * Non-blocking version of `compress`, used by the buffered mode.
+ */
+const compressAsync = async (file: string) => {
+	const data = await fs.promises.readFile(file);
+	const gzipped = await new Promise<Buffer>((resolve, reject) =>
+		zlib.gzip(data, (error, result) =>
+			error ? reject(error) : resolve(result),
+		),
+	);
+	await fs.promises.writeFile(`${file}.gz`, gzipped);
+	await fs.promises.unlink(file);
+};
+
+/**
+ * Escapes the regex special characters of a literal text.
+ */
+const escapeRegex = (text: string) =>
+	text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const TIMER_PATTERNS: Record<string, string> = {
+	timestamp: "\\d+",
+	year: "\\d{4}",
+	month: "\\d{2}",
+	day: "\\d{2}",
+	hours: "\\d{2}",
+	minutes: "\\d{2}",
+	seconds: "\\d{2}",
+	milliseconds: "\\d{3}",
+};
+
+/**
+ * Builds the pattern matching every file produced by a "register_filename" template,
+ * including the files rolled by size ("name.1.log") and compressed ("name.1.log.gz").
+ *
+ * @example ownedFiles("{day}_{month}_{year}.{ext}", "info", "App") // /^\d{2}_\d{2}_\d{4}(?:\.\d+)?\.log(?:\.gz)?$/
+ */
+const ownedFiles = (template: string, level: string, title: string) => {
+	const expanded = template
+		.replace(/{status}/g, level)
+		.replace(/{title}/g, title)
+		.replace(/{ext}/g, "log");
+	const toPattern = (text: string) =>
+		text
+			.split(/({\w+})/)
+			.map((part) => {
+				const key = /^{(\w+)}$/.exec(part)?.[1];
+				return key && TIMER_PATTERNS[key]
+					? TIMER_PATTERNS[key]
+					: escapeRegex(part);
+			})
+			.join("");
+
+	const dot = expanded.lastIndexOf(".");
+	const ext = dot > 0 ? expanded.slice(dot) : "";
+	// rolled files keep the extension: "name.log" -> "name.1.log"
+	const pattern =
+		ext && !ext.includes("{")
+			? `${toPattern(expanded.slice(0, dot))}(?:\\.\\d+)?${escapeRegex(ext)}`
+			: `${toPattern(expanded)}(?:\\.\\d+)?`;
+	return new RegExp(`^${pattern}(?:\\.gz)?$`);
+};
+
+/**
+ * Retention cleanup context: the folder, the current file, the files owned by the logger and the options.
+ */
+type LggsRegisterCleanup = {
+	folder: string;
+	file: string;
+	pattern: RegExp;
+	config: LggsRegisterConfig;
+	onCleanup?: LggsRegisterOptions["onCleanup"];
+};
+
+/**
+ * Runs the retention cleanup, non-blocking in buffered mode.
+ */
+const retention = (context: LggsRegisterCleanup) => {
+	if (context.config.register_buffer) cleanupAsync(context).catch(warn);
+	else cleanup(context);
+};
+
+/**
+ * Selects the files to delete, by count ("register_limit") and by age ("register_max_age").
+ * The current file counts in the limit even when its lines are not written yet.
+ */
+const expired = (
+	logFiles: { file: string; mtime: number }[],
+	current: string,
+	config: LggsRegisterConfig,
+) => {
+	// files rolled in the same millisecond are ordered by index, "app.2.log" is older than "app.1.log"
+	const sorted = [...logFiles].sort(
+		(a, b) => a.mtime - b.mtime || rollIndex(b.file) - rollIndex(a.file),
+	);
+	const limit = logFiles.some(({ file }) => file === current)
+		? config.register_limit
+		: config.register_limit - 1;
+	const maxAge = LggsParseDuration(config.register_max_age);
+	const now = Date.now();
+	return sorted
+		.filter(
+			(entry, index) =>
+				(config.register_limit > 0 && index < sorted.length - limit) ||
+				(maxAge > 0 && now - entry.mtime > maxAge),
+		)
+		.map(({ file }) => file);
+};
+
+/**
+ * Deletes the owned log files exceeding "register_limit" or older than "register_max_age".
+ */
+const cleanup = ({
+	folder,
+	file: current,
+	pattern,
+	config,
+	onCleanup,
+}: LggsRegisterCleanup) => {
+	if (!config.register_del) return;
+	const logFiles = fs
+		.readdirSync(folder)
+		.filter((file) => pattern.test(file))
+		.map((file) => ({
+			file,
+			mtime: fs.statSync(path.join(folder, file)).mtime.getTime(),
+		}));
+	const files = expired(logFiles, current, config).map((file) =>
+		path.join(folder, file),
+	);
+	if (files.length === 0) return;
+	if (onCleanup) onCleanup(config, files);
+	if (config.register_dry_run) return;
+	files.forEach((file) => {
+		fs.unlinkSync(file);
+	});
+};
+
+/**
+ * Non-blocking version of `cleanup`, used by the buffered mode.
+ */
+const cleanupAsync = async ({
+	folder,
+	file: current,
+	pattern,
+	config,
+	onCleanup,
+}: LggsRegisterCleanup) => {
+	if (!config.register_del) return;
+	const names = (await fs.promises.readdir(folder)).filter((file) =>
+		pattern.test(file),
+	);
+	const logFiles = await Promise.all(
+		names.map(async (file) => ({
+			file,
+			mtime: (await fs.promises.stat(path.join(folder, file))).mtime.getTime(),
+		})),
+	);
+	const files = expired(logFiles, current, config).map((file) =>
+		path.join(folder, file),
+	);
+	if (files.length === 0) return;
+	if (onCleanup) onCleanup(config, files);
+	if (config.register_dry_run) return;
+	await Promise.all(files.map((file) => fs.promises.unlink(file)));
+};
+
+/**
+ * Writes every pending line of the buffered mode.
+ *
+ * @returns A promise resolved once all lines are written.
+ */
+export const RegisterPluginFlush = async () => {
+	await Promise.all([...writers.values()].map((writer) => writer.flush()));
+};
+
+/**
+ * Flushes and closes every open log file.
+ * The next message opens the files again.
+ */
+export const RegisterPluginClose = async () => {
+	const current = [...writers.values()];
+	writers.clear();
+	await Promise.all(current.map((writer) => writer.close()));
+};
+
 export type LggsRegisterOptions = {
 	onPreMessage?: LggsPluginData<LggsRegisterConfig>["onPreMessage"];
 	onMessage?: LggsPluginData<LggsRegisterConfig>["onMessage"];
 	onSend?: LggsPluginData<LggsRegisterConfig>["onSend"];
 	onInit?: LggsPluginData<LggsRegisterConfig>["onInit"];
+	/**
+	 * Called with the paths of the log files about to be deleted by the retention cleanup.
+	 * With "register_dry_run" enabled, it reports them without deleting anything.
+	 */
+	onCleanup?(config: LggsRegisterConfig, files: string[]): unknown;
 };
 
 export type LggsRegisterConfig = {
@@ -117,7 +449,8 @@ export type LggsRegisterConfig = {
 	register: boolean;
 	/**
 	 * Allows you to delete the logs, if you exceed the limit configured
-	 * in "register_limit", if "register_limit" is 0, it will be ignored
+	 * in "register_limit", if "register_limit" is 0, it will be ignored.
+	 * Only the files produced by "register_filename" are considered.
 	 */
 	register_del: boolean;
 	/**
@@ -125,16 +458,64 @@ export type LggsRegisterConfig = {
 	 * Register-specific level will be used
 	 */
 	register_level?: LggsLevel;
+	/**
+	 * Inspect options of the objects written in the files, over the `inspect` ones
+	 *
+	 * @default { depth: 10, maxArrayLength: 1000, maxStringLength: 100000, compact: true, breakLength: Infinity }
+	 */
+	register_inspect?: LggsInspectOptions;
 	/**
 	 * Sets how many log files will be needed to start deleting old files,
 	 * if "register_del" is disabled or the value set is 0,
 	 * this option will be ignored
 	 */
 	register_limit: number;
+	/**
+	 * Maximum size of a log file, e.g. "50MB" or a number of bytes.
+	 * When exceeded, the file rolls to "name.1.log", "name.2.log" and so on
+	 * ("name.1.log" being the most recent). 0 disables size rotation.
+	 *
+	 * @default 0
+	 */
+	register_max_size: string | number;
+	/**
+	 * Compress the files rolled by size with gzip ("name.1.log.gz")
+	 */
+	register_compress: boolean;
+	/**
+	 * Runs the retention cleanup without deleting anything,
+	 * the files that would be deleted are reported to the `onCleanup` option.
+	 */
+	register_dry_run: boolean;
+	/**
+	 * Deletes log files older than this age, e.g. "14d", "12h" or a number of milliseconds,
+	 * applied alongside "register_limit". Ignored if "register_del" is disabled or the value is 0.
+	 *
+	 * @default 0
+	 */
+	register_max_age: string | number;
 	/**
 	 * Directory where the files will be stored, if "register" is disabled, it will be ignored
 	 */
 	register_dir: string;
+	/**
+	 * Keeps log lines in memory and writes them in batches through a kept-open stream,
+	 * instead of appending every line synchronously.
+	 * Use `logger.flush()` / `logger.close()` (or `RegisterPluginFlush()` / `RegisterPluginClose()`) to write pending lines.
+	 */
+	register_buffer: boolean;
+	/**
+	 * Buffered mode: pending lines are written when they reach this size, in bytes.
+	 *
+	 * @default 65536
+	 */
+	register_buffer_size: number;
+	/**
+	 * Buffered mode: pending lines are written after this interval, in milliseconds.
+	 *
+	 * @default 1000
+	 */
+	register_flush_interval: number;
 	/**
 	 * Register Format locale file.
 	 *
@@ -146,7 +527,7 @@ export type LggsRegisterConfig = {
 	/**
 	 * Register File Format locale file.
 	 *
-	 * Main Args:  {ext} | {status}
+	 * Main Args:  {ext} | {status} | {title}
 	 *
 	 * Timer Args: {day} | {month} | {year} | {hours} | {minutes}| {seconds} | {milliseconds}
 	 *
@@ -156,7 +537,9 @@ export type LggsRegisterConfig = {
 	/**
 	 * Register Format, in registration logs,
 	 *
-	 * Main Args:  {status} | {message} | {title}
+	 * Main Args:  {status} | {message} | {title} | {fields} | {duration}
+	 *
+	 * Caller Args: {file} | {line} | {column} | {function} (with `caller` enabled)
 	 *
 	 * Timer Args: {day} | {month} | {year} | {hours} | {minutes}| {seconds} | {milliseconds}
 	 *
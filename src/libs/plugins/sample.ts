@@ -0,0 +1,195 @@
+import type {
+	LggsLevel,
+	LggsMessage,
+	LggsPluginData,
+	LggsPluginLogger,
+} from "../../types";
+import type { LggsBaseConfig } from "../defaults";
+import { LggsParseDuration } from "../utils";
+
+/**
+ * Lggs Sample Default options
+ */
+export const SamplePluginDefault: LggsSampleConfig = {
+	sample: true,
+	sample_limit: 100,
+	sample_interval: "1s",
+	sample_by: "message",
+	sample_rates: {},
+	sample_summary: true,
+};
+
+/**
+ * Message template used to group similar messages, the first argument when it is a string.
+ */
+const templateOf = (messages: LggsMessage[]) =>
+	typeof messages[0] === "string" ? messages[0] : typeof messages[0];
+
+/**
+ * Intervals kept before the expired ones are removed.
+ */
+const MAX_WINDOWS = 1000;
+
+/**
+ * Lggs Sample plugin
+ *
+ * Limits noisy messages: N messages per interval (by level or by message template),
+ * probabilistic sampling by level, and a periodic summary of the suppressed messages
+ *
+ * @version 1.0.0
+ */
+export const SamplePlugin = (
+	opts: LggsSampleOptions = {},
+): LggsPluginData<LggsSampleConfig & Partial<LggsBaseConfig>> => {
+	/** Current interval of every key. */
+	const windows = new Map<string, { start: number; count: number }>();
+	/** Suppressed messages not reported yet, by key. */
+	const suppressed = new Map<
+		string,
+		{ level: LggsLevel; template: string; count: number }
+	>();
+	let logger: LggsPluginLogger | undefined;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let reporting = false;
+
+	/** Removes the expired intervals, their keys start a new one on the next message. */
+	const prune = (now: number, interval: number) => {
+		for (const [key, window] of windows) {
+			if (now - window.start >= interval) windows.delete(key);
+		}
+	};
+
+	const report = (config: LggsSampleConfig) => {
+		if (timer) clearTimeout(timer);
+		timer = undefined;
+		prune(Date.now(), LggsParseDuration(config.sample_interval));
+		const current = [...suppressed.values()];
+		suppressed.clear();
+		if (!config.sample_summary || !logger) return;
+
+		// summaries pass through the plugin without being counted
+		reporting = true;
+		try {
+			for (const { level, template, count } of current) {
+				logger.controller(
+					[
+						config.sample_by === "message"
+							? `Suppressed ${count} similar messages: ${template}`
+							: `Suppressed ${count} similar messages`,
+					],
+					level,
+				);
+			}
+		} finally {
+			reporting = false;
+		}
+	};
+
+	const suppress = (
+		config: LggsSampleConfig,
+		key: string,
+		level: LggsLevel,
+		template: string,
+	) => {
+		const entry = suppressed.get(key);
+		if (entry) entry.count++;
+		else suppressed.set(key, { level, template, count: 1 });
+		if (!timer && config.sample_summary) {
+			timer = setTimeout(
+				() => report(config),
+				LggsParseDuration(config.sample_interval),
+			);
+			timer.unref?.();
+		}
+		return undefined;
+	};
+
+	return {
+		ident: "lggs-sample",
+		default: SamplePluginDefault,
+		// runs before the other plugins, a suppressed message is dropped for all of them
+		priority: 100,
+		transform: true,
+		onInit(config, current) {
+			// called once, children share the plugin and the summary goes through this logger
+			logger = current;
+			if (opts.onInit) opts.onInit(config, current);
+		},
+		// outputs nothing by itself
+		isLevelEnabled: () => false,
+		onPreMessage(config, level, messages, record) {
+			if (!config.sample || reporting) return messages;
+			const template = templateOf(messages);
+			const key =
+				config.sample_by === "message" ? `${level}\0${template}` : level;
+
+			const rate = config.sample_rates[level];
+			if (rate !== undefined && Math.random() >= rate) {
+				return suppress(config, key, level, template);
+			}
+
+			if (config.sample_limit > 0) {
+				const interval = LggsParseDuration(config.sample_interval);
+				let window = windows.get(key);
+				if (!window || record.timestamp - window.start >= interval) {
+					if (!window && windows.size >= MAX_WINDOWS) {
+						prune(record.timestamp, interval);
+					}
+					window = { start: record.timestamp, count: 0 };
+					windows.set(key, window);
+				}
+				window.count++;
+				if (window.count > config.sample_limit) {
+					return suppress(config, key, level, template);
+				}
+			}
+
+			return opts.onPreMessage
+				? opts.onPreMessage(config, level, messages, record)
+				: messages;
+		},
+		onFlush: (config) => report(config),
+		onClose(config) {
+			report(config);
+			windows.clear();
+		},
+	};
+};
+
+export type LggsSampleOptions = {
+	onPreMessage?: LggsPluginData<LggsSampleConfig>["onPreMessage"];
+	onInit?: LggsPluginData<LggsSampleConfig>["onInit"];
+};
+
+export type LggsSampleConfig = {
+	/**
+	 * Allows sample and rate limit messages
+	 */
+	sample: boolean;
+	/**
+	 * Messages logged per interval and key, the next ones are suppressed. 0 disables the limit.
+	 *
+	 * @default 100
+	 */
+	sample_limit: number;
+	/**
+	 * Interval of the limit and of the summary, in milliseconds or as a duration ("500ms", "1s", "1m").
+	 *
+	 * @default "1s"
+	 */
+	sample_interval: string | number;
+	/**
+	 * Counts the limit by level, or by level and message template (the first argument when it is a string).
+	 *
+	 * @default "message"
+	 */
+	sample_by: "level" | "message";
+	/**
+	 * Probability (0 to 1) of keeping a message, by level, e.g. `{ debug: 0.1, trace: 0.01 }`
+	 */
+	sample_rates: Partial<Record<LggsLevel, number>>;
+	/**
+	 * Logs "Suppressed N similar messages" once per interval with suppressed messages
+	 */
+	sample_summary: boolean;
+};
@@ -0,0 +1,51 @@
+import type { LggsLevel, LggsMessage, LggsRecord } from "../types";
+import type { LggsBaseConfig } from "./defaults";
+import { timer } from "./utils";
+
+/**
+ * Creates the structured record of a log call.
+ *
+ * @param config - The fully merged logger configuration.
+ * @param level - The log level.
+ * @param args - The raw arguments passed to the log method.
+ * @param extra - Metadata of the call, e.g. the `duration` of a timer.
+ * @returns The frozen record shared by every plugin.
+ */
+export function LggsCreateRecord(
+	config: Partial<LggsBaseConfig>,
+	level: LggsLevel,
+	args: LggsMessage[],
+	extra: Partial<LggsRecord> = {},
+): LggsRecord {
+	const { timer: time } = timer("");
+	return LggsFreezeRecord({
+		timestamp: time.timestamp,
+		time,
+		level,
+		title: config.title as string,
+		args,
+		fields: { ...config.fields },
+		error: args.find((arg) => arg instanceof Error),
+		...extra,
+	});
+}
+
+/**
+ * Freezes a record, its args, fields and time, copying them when they are not frozen yet.
+ * Used for the records returned by the `onRecord` middlewares.
+ *
+ * @param record - The record to freeze.
+ * @returns The frozen record.
+ */
+export function LggsFreezeRecord(record: LggsRecord): LggsRecord {
+	const freeze = <T extends object>(value: T): T =>
+		Object.isFrozen(value)
+			? value
+			: (Object.freeze(Array.isArray(value) ? [...value] : { ...value }) as T);
+	return Object.freeze({
+		...record,
+		time: freeze(record.time),
+		args: freeze(record.args),
+		fields: freeze(record.fields),
+	});
+}
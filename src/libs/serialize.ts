@@ -0,0 +1,346 @@
+import type { LggsInspectOptions } from "./inspect";
+import { colorpik } from "./pallet";
+
+export type LggsSerializeOptions = LggsInspectOptions & {
+	/** Colors the values with ANSI codes. */
+	colors?: boolean;
+};
+
+/**
+ * Colors of the values, by kind.
+ */
+const STYLES = {
+	number: "yellow40",
+	bigint: "yellow40",
+	boolean: "yellow40",
+	string: "green50",
+	symbol: "green50",
+	undefined: "gray50",
+	null: "bold",
+	date: "purple50",
+	regexp: "red50",
+	special: "cyan50",
+} as const;
+
+/**
+ * Defaults of `LggsSerialize()`, the same as `util.inspect`.
+ */
+const DEFAULTS: Required<LggsSerializeOptions> = {
+	depth: 2,
+	maxArrayLength: 100,
+	maxStringLength: 10_000,
+	compact: 3,
+	breakLength: 80,
+	sorted: false,
+	getters: false,
+	colors: false,
+};
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+// biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI codes
+const ANSI = /\x1b\[[0-9;]*m/g;
+
+type State = Required<LggsSerializeOptions> & {
+	/** Objects being rendered, from the root to the current one. */
+	parents: object[];
+	/** Reference ids of the objects found again in their own children. */
+	refs: Map<object, number>;
+};
+
+const style = (state: State, kind: keyof typeof STYLES, text: string) =>
+	state.colors ? colorpik(STYLES[kind], text) : text;
+
+/**
+ * Quotes a string, truncated to `maxStringLength`.
+ */
+const quote = (state: State, value: string) => {
+	const limit = state.maxStringLength ?? Infinity;
+	const text = value.length > limit ? value.slice(0, limit) : value;
+	// single quotes unless the string contains some, like util.inspect
+	const mark = text.includes("'") && !text.includes('"') ? '"' : "'";
+	const escaped = text
+		.replace(/\\/g, "\\\\")
+		.replace(new RegExp(mark, "g"), `\\${mark}`)
+		.replace(/\n/g, "\\n");
+	const rest = value.length - text.length;
+	return `${style(state, "string", `${mark}${escaped}${mark}`)}${rest > 0 ? `... ${rest} more character${rest > 1 ? "s" : ""}` : ""}`;
+};
+
+/**
+ * Name shown before an object, `undefined` for plain objects.
+ */
+const nameOf = (value: object): string | undefined => {
+	const prototype = Object.getPrototypeOf(value);
+	if (prototype === null) return "[Object: null prototype]";
+	const name: unknown = prototype.constructor?.name;
+	if (typeof name !== "string" || name === "") return undefined;
+	return name === "Object" ? undefined : name;
+};
+
+const key = (state: State, name: string | symbol) => {
+	if (typeof name === "symbol") {
+		return `[${style(state, "symbol", name.toString())}]`;
+	}
+	return IDENTIFIER.test(name) ? name : quote(state, name);
+};
+
+/**
+ * Renders an own property, getters are only called with the `getters` option.
+ */
+const property = (
+	state: State,
+	value: object,
+	name: string | symbol,
+	level: number,
+) => {
+	const descriptor = Object.getOwnPropertyDescriptor(value, name);
+	if (descriptor?.get || descriptor?.set) {
+		const kind = descriptor.get
+			? descriptor.set
+				? "Getter/Setter"
+				: "Getter"
+			: "Setter";
+		if (!descriptor.get || !state.getters) {
+			return `${key(state, name)}: ${style(state, "special", `[${kind}]`)}`;
+		}
+		try {
+			const result = format(state, descriptor.get.call(value), level + 1);
+			return `${key(state, name)}: ${style(state, "special", `[${kind}:`)} ${result}${style(state, "special", "]")}`;
+		} catch (error) {
+			return `${key(state, name)}: ${style(state, "special", `[${kind}: <Inspection threw (${(error as Error)?.message})>]`)}`;
+		}
+	}
+	return `${key(state, name)}: ${format(state, (value as Record<string | symbol, unknown>)[name], level + 1)}`;
+};
+
+/**
+ * Joins the items of an object on one line when they fit, one item per line otherwise.
+ */
+const join = (
+	state: State,
+	prefix: string,
+	items: string[],
+	braces: [string, string],
+	level: number,
+) => {
+	const start = prefix ? `${prefix} ${braces[0]}` : braces[0];
+	if (items.length === 0) return `${start}${braces[1]}`;
+
+	const line = `${start} ${items.join(", ")} ${braces[1]}`;
+	if (
+		state.compact !== false &&
+		!items.some((item) => item.includes("\n")) &&
+		line.replace(ANSI, "").length + level * 2 <= state.breakLength
+	) {
+		return line;
+	}
+	const lines = items.map((item) => `  ${item.replace(/\n/g, "\n  ")}`);
+	return `${start}\n${lines.join(",\n")}\n${braces[1]}`;
+};
+
+/**
+ * Items of arrays, sets and maps up to `maxArrayLength`.
+ */
+const limit = <T>(
+	state: State,
+	values: Iterable<T>,
+	size: number,
+	render: (value: T) => string,
+) => {
+	const max = state.maxArrayLength ?? Infinity;
+	const items: string[] = [];
+	for (const value of values) {
+		if (items.length >= max) break;
+		items.push(render(value));
+	}
+	const rest = size - items.length;
+	if (rest > 0) items.push(`... ${rest} more item${rest > 1 ? "s" : ""}`);
+	return items;
+};
+
+const format = (state: State, value: unknown, level: number): string => {
+	switch (typeof value) {
+		case "string":
+			return quote(state, value);
+		case "number":
+			return style(
+				state,
+				"number",
+				Object.is(value, -0) ? "-0" : String(value),
+			);
+		case "bigint":
+			return style(state, "bigint", `${value}n`);
+		case "boolean":
+			return style(state, "boolean", String(value));
+		case "symbol":
+			return style(state, "symbol", value.toString());
+		case "undefined":
+			return style(state, "undefined", "undefined");
+		case "function": {
+			const kind = /^class\b/.test(Function.prototype.toString.call(value))
+				? "class"
+				: "Function";
+			return style(
+				state,
+				"special",
+				value.name ? `[${kind} ${value.name}]` : `[${kind} (anonymous)]`,
+			);
+		}
+	}
+	if (value === null) return style(state, "null", "null");
+	const object = value as object;
+
+	if (state.parents.includes(object)) {
+		let id = state.refs.get(object);
+		if (id === undefined) {
+			id = state.refs.size + 1;
+			state.refs.set(object, id);
+		}
+		return style(state, "special", `[Circular *${id}]`);
+	}
+	if (object instanceof Date) {
+		return style(
+			state,
+			"date",
+			Number.isNaN(object.getTime()) ? "Invalid Date" : object.toISOString(),
+		);
+	}
+	if (object instanceof RegExp) return style(state, "regexp", String(object));
+	if (object instanceof Error) {
+		return `[${object.name}${object.message ? `: ${object.message}` : ""}]`;
+	}
+	if (
+		object instanceof Number ||
+		object instanceof String ||
+		object instanceof Boolean
+	) {
+		const primitive = object.valueOf();
+		return style(
+			state,
+			"special",
+			`[${nameOf(object)}: ${format({ ...state, colors: false }, primitive, level)}]`,
+		);
+	}
+
+	const name = nameOf(object);
+	if (state.depth !== null && level > state.depth) {
+		return style(
+			state,
+			"special",
+			`[${name ?? (Array.isArray(object) ? "Array" : "Object")}]`,
+		);
+	}
+
+	state.parents.push(object);
+	let text: string;
+	try {
+		text = render(state, object, name, level);
+	} finally {
+		state.parents.pop();
+	}
+	const id = state.refs.get(object);
+	return id === undefined
+		? text
+		: `${style(state, "special", `<ref *${id}>`)} ${text}`;
+};
+
+/**
+ * Renders the items of an object, by type.
+ */
+const render = (
+	state: State,
+	object: object,
+	name: string | undefined,
+	level: number,
+): string => {
+	const next = (item: unknown) => format(state, item, level + 1);
+
+	if (Array.isArray(object)) {
+		const items = limit(state, object.keys(), object.length, (index) =>
+			index in object ? next(object[index]) : "<1 empty item>",
+		);
+		return join(
+			state,
+			name === "Array" ? "" : (name ?? ""),
+			items,
+			["[", "]"],
+			level,
+		);
+	}
+	if (ArrayBuffer.isView(object) && !(object instanceof DataView)) {
+		const values = object as unknown as ArrayLike<unknown> & Iterable<unknown>;
+		return join(
+			state,
+			`${name}(${values.length})`,
+			limit(state, values, values.length, next),
+			["[", "]"],
+			level,
+		);
+	}
+	if (object instanceof ArrayBuffer) {
+		return `${name} { byteLength: ${format(state, object.byteLength, level)} }`;
+	}
+	if (object instanceof Map) {
+		const items = limit(
+			state,
+			object.entries(),
+			object.size,
+			([k, v]) => `${next(k)} => ${next(v)}`,
+		);
+		if (state.sorted) items.sort();
+		return join(state, `${name}(${object.size})`, items, ["{", "}"], level);
+	}
+	if (object instanceof Set) {
+		const items = limit(state, object.values(), object.size, next);
+		if (state.sorted) items.sort();
+		return join(state, `${name}(${object.size})`, items, ["{", "}"], level);
+	}
+	if (
+		object instanceof WeakMap ||
+		object instanceof WeakSet ||
+		object instanceof Promise
+	) {
+		return `${name} { ${style(state, "special", "<unknown>")} }`;
+	}
+
+	const keys: (string | symbol)[] = Object.keys(object);
+	if (state.sorted) keys.sort();
+	for (const symbol of Object.getOwnPropertySymbols(object)) {
+		if (Object.prototype.propertyIsEnumerable.call(object, symbol)) {
+			keys.push(symbol);
+		}
+	}
+	const items = keys.map((k) => property(state, object, k, level));
+	return join(state, name ?? "", items, ["{", "}"], level);
+};
+
+/**
+ * Pretty prints any value like `util.inspect`, without depending on the runtime.
+ * Used by `_inspect` when no native inspect is available (browsers, unknown runtimes).
+ *
+ * Circular references are marked (`<ref *1>` / `[Circular *1]`), class instances are
+ * prefixed by their name, and `Map`, `Set`, typed arrays, `Date`, `RegExp`, `BigInt`
+ * and `Symbol` values are rendered by type.
+ *
+ * @param value - The value to print.
+ * @param options - Inspect options, with `colors` for ANSI colors.
+ * @returns The printed value.
+ *
+ * @example
+ * ```ts
+ * const user: any = { name: "ana", tags: new Set(["admin"]) };
+ * user.self = user;
+ * LggsSerialize(user);
+ * // <ref *1> { name: 'ana', tags: Set(1) { 'admin' }, self: [Circular *1] }
+ * ```
+ */
+export function LggsSerialize(
+	value: unknown,
+	options: LggsSerializeOptions = {},
+): string {
+	const settings = { ...DEFAULTS };
+	for (const [name, option] of Object.entries(options)) {
+		if (option !== undefined) Object.assign(settings, { [name]: option });
+	}
+	return format({ ...settings, parents: [], refs: new Map() }, value, 0);
+}
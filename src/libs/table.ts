@@ -0,0 +1,81 @@
+import _inspect from "./inspect";
+
+/**
+ * Formats a table cell on a single line.
+ */
+const cell = (value: unknown) => {
+	if (value === undefined) return "";
+	if (typeof value === "object" && value !== null) {
+		return _inspect(value, true).replace(/\s*\n\s*/g, " ");
+	}
+	return String(value);
+};
+
+/**
+ * Renders tabular data as a text table, like `console.table`.
+ * Every row is an entry of the data, primitive rows are shown in a "Values" column.
+ *
+ * @param data - The array or object to render.
+ * @param properties - Columns to show, all of them when not set.
+ * @returns The table, or `undefined` when the data is not an object.
+ *
+ * @example
+ * ```ts
+ * LggsTable([{ a: 1 }, { a: 2 }]);
+ * // ┌─────────┬───┐
+ * // │ (index) │ a │
+ * // ├─────────┼───┤
+ * // │ 0       │ 1 │
+ * // │ 1       │ 2 │
+ * // └─────────┴───┘
+ * ```
+ */
+export function LggsTable(
+	data: unknown,
+	properties?: readonly string[],
+): string | undefined {
+	if (typeof data !== "object" || data === null) return undefined;
+
+	const entries =
+		data instanceof Map ? [...data.entries()] : Object.entries(data);
+	const columns: string[] = [];
+	let values = false;
+	for (const [, row] of entries) {
+		if (typeof row === "object" && row !== null) {
+			for (const key of Object.keys(row)) {
+				if (!columns.includes(key)) columns.push(key);
+			}
+		} else {
+			values = true;
+		}
+	}
+
+	const keys = properties ? [...properties] : columns;
+	const header = ["(index)", ...keys, ...(values ? ["Values"] : [])];
+	const rows = entries.map(([index, row]) => {
+		const isObject = typeof row === "object" && row !== null;
+		return [
+			String(index),
+			...keys.map((key) =>
+				isObject ? cell((row as Record<string, unknown>)[key]) : "",
+			),
+			...(values ? [isObject ? "" : cell(row)] : []),
+		];
+	});
+
+	const widths = header.map((title, column) =>
+		Math.max(title.length, ...rows.map((row) => row[column].length)),
+	);
+	const line = (left: string, middle: string, right: string) =>
+		`${left}${widths.map((width) => "─".repeat(width + 2)).join(middle)}${right}`;
+	const row = (cells: string[]) =>
+		`│${cells.map((text, column) => ` ${text.padEnd(widths[column])} `).join("│")}│`;
+
+	return [
+		line("┌", "┬", "┐"),
+		row(header),
+		line("├", "┼", "┤"),
+		...rows.map(row),
+		line("└", "┴", "┘"),
+	].join("\n");
+}
@@ -1,4 +1,15 @@
-import type { LggsLevel, TimerFormat } from "../types";
+import type {
+	LggsLevel,
+	LggsLevelOptions,
+	LggsMessage,
+	LggsPluginData,
+	TimerFormat,
+} from "../types";
+import { LggsInternalFile } from "./caller";
+import { LggsDefaultLevels } from "./defaults";
+
+// custom level methods are defined here, skipped when capturing the caller
+LggsInternalFile();
 
 const rgb_converter = (background: boolean, ...colors: number[]) => {
 	const [r, g, b] = colors.map((color) => Math.min(255, Math.max(0, color)));
@@ -18,10 +29,19 @@ export const rgb =
 	(bg: boolean = false) =>
 		rgb_converter(bg, r, g, b);
 
-export function timer(format: string): { format: string; timer: TimerFormat } {
-	const now = new Date();
+/**
+ * Replaces the timer placeholders ({day}, {hours}...) of a format.
+ *
+ * @param format - The format containing timer placeholders.
+ * @param date - The date to use, defaults to now. Pass `record.timestamp` to share the record time.
+ */
+export function timer(
+	format: string,
+	date: Date | number = new Date(),
+): { format: string; timer: TimerFormat } {
+	const now = typeof date === "number" ? new Date(date) : date;
 	const timer = {
-		timestamp: Date.now(),
+		timestamp: now.getTime(),
 		year: String(now.getFullYear()),
 		month: String(now.getMonth() + 1).padStart(2, "0"),
 		day: String(now.getDate()).padStart(2, "0"),
@@ -39,20 +59,210 @@ export function timer(format: string): { format: string; timer: TimerFormat } {
 	return { format: formatted, timer };
 }
 
-export function LggsLevelToNumber(level: LggsLevel) {
-	switch (level) {
-		case "debug":
-			return 4;
-		case "info":
-			return 3;
-		case "warn":
-			return 2;
-		case "error":
-			return 1;
-		default:
-			return 1;
+/**
+ * Converts bound fields to a `key=value` list, used by the `{fields}` placeholder.
+ * Strings are kept as is, other values are serialized as JSON.
+ *
+ * @example LggsFieldsToString({ requestId: "a1b2", user: 7 }) // "requestId=a1b2 user=7"
+ */
+export function LggsFieldsToString(fields: Record<string, unknown> = {}) {
+	return Object.entries(fields)
+		.map(([key, value]) => {
+			if (typeof value === "string") return `${key}=${value}`;
+			try {
+				return `${key}=${JSON.stringify(value)}`;
+			} catch {
+				return `${key}=${String(value)}`;
+			}
+		})
+		.join(" ");
+}
+
+const SIZE_UNITS: Record<string, number> = {
+	b: 1,
+	kb: 1024,
+	mb: 1024 ** 2,
+	gb: 1024 ** 3,
+	tb: 1024 ** 4,
+};
+
+/**
+ * Parses a human-friendly size to bytes.
+ *
+ * @example LggsParseSize("50MB") // 52428800
+ * @example LggsParseSize(1024) // 1024
+ */
+export function LggsParseSize(size: string | number | undefined): number {
+	if (typeof size === "number") return size;
+	if (!size) return 0;
+	const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb)?\s*$/i.exec(size);
+	if (!match) throw new Error(`Invalid size "${size}"`);
+	return Math.floor(
+		Number(match[1]) * SIZE_UNITS[(match[2] ?? "b").toLowerCase()],
+	);
+}
+
+const DURATION_UNITS: Record<string, number> = {
+	ms: 1,
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a human-friendly duration to milliseconds.
+ *
+ * @example LggsParseDuration("14d") // 1209600000
+ * @example LggsParseDuration(500) // 500
+ */
+export function LggsParseDuration(
+	duration: string | number | undefined,
+): number {
+	if (typeof duration === "number") return duration;
+	if (!duration) return 0;
+	const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)?\s*$/i.exec(duration);
+	if (!match) throw new Error(`Invalid duration "${duration}"`);
+	return Math.floor(
+		Number(match[1]) * DURATION_UNITS[(match[2] ?? "ms").toLowerCase()],
+	);
+}
+
+/**
+ * Formats milliseconds to a human-friendly duration.
+ *
+ * @example LggsFormatDuration(12.3456) // "12.346ms"
+ * @example LggsFormatDuration(1500) // "1.500s"
+ * @example LggsFormatDuration(125000) // "2m 5.000s"
+ */
+export function LggsFormatDuration(duration: number): string {
+	if (duration < 1000) return `${duration.toFixed(3)}ms`;
+	if (duration < 60 * 1000) return `${(duration / 1000).toFixed(3)}s`;
+	const minutes = Math.floor(duration / (60 * 1000));
+	return `${minutes}m ${((duration - minutes * 60 * 1000) / 1000).toFixed(3)}s`;
+}
+
+/**
+ * Returns the numeric severity of a level, lower is more severe.
+ * Unknown levels are treated as errors.
+ *
+ * @param level - The level name.
+ * @param levels - The levels definitions, usually `config.levels`.
+ */
+export function LggsLevelToNumber(
+	level: LggsLevel,
+	levels: Partial<Record<LggsLevel, LggsLevelOptions>> = LggsDefaultLevels,
+) {
+	return levels[level]?.severity ?? LggsDefaultLevels[level]?.severity ?? 1;
+}
+/**
+ * Generates a logger method for every level not already defined on the target,
+ * e.g. `{ fatal: { severity: 0 } }` -> `logger.fatal(...messages)`.
+ *
+ * @param target - The logger instance or prototype.
+ * @param levels - The levels definitions.
+ */
+export function LggsDefineLevels(
+	target: object,
+	levels: Partial<Record<LggsLevel, LggsLevelOptions>> = {},
+) {
+	for (const level of Object.keys(levels)) {
+		if (level in target) continue;
+		Object.defineProperty(target, level, {
+			configurable: true,
+			writable: true,
+			value: function (
+				this: { controller(msgs: LggsMessage[], level: LggsLevel): unknown },
+				...messages: LggsMessage[]
+			) {
+				this.controller(messages, level as LggsLevel);
+				return this;
+			},
+		});
+	}
+}
+
+/**
+ * Deep-freezes a copy of plain objects and arrays, other values (class instances, functions) are kept as is.
+ * The original value is never frozen, so configurations given by the user stay editable.
+ *
+ * @param value - The value to freeze.
+ * @returns The frozen copy.
+ */
+export function LggsFreeze<T>(
+	value: T,
+	seen = new WeakMap<object, unknown>(),
+): T {
+	if (!value || typeof value !== "object") return value;
+	const isArray = Array.isArray(value);
+	if (!isArray && Object.getPrototypeOf(value) !== Object.prototype)
+		return value;
+	if (seen.has(value)) return seen.get(value) as T;
+
+	const copy: Record<string, unknown> | unknown[] = isArray ? [] : {};
+	seen.set(value, copy);
+	for (const key of Object.keys(value)) {
+		(copy as Record<string, unknown>)[key] = LggsFreeze(
+			(value as Record<string, unknown>)[key],
+			seen,
+		);
 	}
+	return Object.freeze(copy) as T;
 }
+
+/**
+ * Orders plugins by `priority` (higher first, stable), then applies their `after` / `before` constraints.
+ * Unknown idents are ignored, plugins in a dependency cycle keep the priority order.
+ *
+ * @param plugins - The loaded plugins, in registration order.
+ * @param warn - Called with a message when a dependency cycle is found.
+ * @returns The plugins in execution order.
+ */
+export function LggsSortPlugins(
+	plugins: LggsPluginData<any>[],
+	warn: (message: string) => void = () => {},
+): LggsPluginData<any>[] {
+	const pending = [...plugins].sort(
+		(a, b) => (b.priority ?? 0) - (a.priority ?? 0),
+	);
+	if (
+		!pending.some((plugin) => plugin.after?.length || plugin.before?.length)
+	) {
+		return pending;
+	}
+
+	// ident -> idents that must run before it
+	const requires = new Map<string, Set<string>>(
+		pending.map((plugin) => [plugin.ident, new Set(plugin.after ?? [])]),
+	);
+	for (const plugin of pending) {
+		for (const ident of plugin.before ?? []) {
+			requires.get(ident)?.add(plugin.ident);
+		}
+	}
+
+	const sorted: LggsPluginData<any>[] = [];
+	const done = new Set<string>();
+	while (pending.length > 0) {
+		let index = pending.findIndex((plugin) =>
+			[...(requires.get(plugin.ident) ?? [])].every(
+				(ident) => done.has(ident) || !requires.has(ident),
+			),
+		);
+		if (index === -1) {
+			warn(
+				`Plugins ${pending.map((plugin) => `"${plugin.ident}"`).join(", ")} have circular "after" / "before" dependencies`,
+			);
+			index = 0;
+		}
+		const [plugin] = pending.splice(index, 1);
+		sorted.push(plugin);
+		done.add(plugin.ident);
+	}
+	return sorted;
+}
+
 export enum Runtime {
 	Node,
 	Bun,
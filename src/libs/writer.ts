@@ -0,0 +1,244 @@
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * Options of a Lggs file writer.
+ */
+export type LggsFileWriterOptions = {
+	/**
+	 * Keeps lines in memory and writes them in batches through a kept-open stream.
+	 * When disabled, every line is appended synchronously.
+	 */
+	buffered: boolean;
+	/**
+	 * Buffered mode: flush when the pending lines reach this size, in bytes.
+	 */
+	bufferSize: number;
+	/**
+	 * Buffered mode: flush pending lines after this interval, in milliseconds.
+	 */
+	flushInterval: number;
+};
+
+/**
+ * All writers with pending lines, flushed synchronously when the process exits.
+ */
+const pending = new Set<LggsFileWriter>();
+let exitHook = false;
+
+/**
+ * Reports the failure of a background write, nothing awaits it.
+ */
+const warn = (file: string, error: Error, exiting = false) => {
+	const message = `Failed to write "${file}": ${error.message}`;
+	if (!exiting) return process.emitWarning(message, "LggsWarning");
+	// emitWarning waits for the next tick, which never comes once the process exits
+	const warning = new Error(message);
+	warning.name = "LggsWarning";
+	process.emit("warning", warning);
+};
+
+/**
+ * Lggs File Writer
+ *
+ * Appends lines to a single file, either synchronously or buffered through a write stream.
+ */
+export class LggsFileWriter {
+	/**
+	 * Current size of the file in bytes, including pending lines.
+	 */
+	public size = 0;
+	private stream?: fs.WriteStream;
+	private buffer: string[] = [];
+	private bufferLength = 0;
+	private timeout?: ReturnType<typeof setTimeout>;
+	private rotation?: Promise<void>;
+
+	/**
+	 * @param file - Path of the file, its folder is created if missing.
+	 * @param options - Writer options.
+	 */
+	constructor(
+		public readonly file: string,
+		private readonly options: LggsFileWriterOptions,
+	) {
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		this.size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+	}
+
+	/**
+	 * Writes a line (the line break must be included).
+	 */
+	public write(line: string) {
+		const length = Buffer.byteLength(line);
+		this.size += length;
+
+		if (!this.options.buffered) {
+			this.append(line);
+			return;
+		}
+
+		this.buffer.push(line);
+		this.bufferLength += length;
+		if (!exitHook && typeof process !== "undefined") {
+			exitHook = true;
+			process.once("exit", () => {
+				for (const writer of pending) {
+					// a throwing exit handler would crash the exit
+					try {
+						writer.flushSync();
+					} catch (e) {
+						warn(writer.file, e as Error, true);
+					}
+				}
+			});
+		}
+		pending.add(this);
+
+		if (this.bufferLength >= this.options.bufferSize) {
+			this.flush().catch((e) => warn(this.file, e));
+		} else if (!this.timeout) {
+			this.timeout = setTimeout(() => {
+				this.flush().catch((e) => warn(this.file, e));
+			}, this.options.flushInterval);
+			// never keep the process alive only to flush logs
+			this.timeout.unref?.();
+		}
+	}
+
+	/**
+	 * Writes the pending lines to the file.
+	 *
+	 * @returns A promise resolved once the lines are written.
+	 */
+	public flush(): Promise<void> {
+		if (this.rotation) {
+			// a failed rotation is reported to its caller, the lines are still written
+			const next = () => this.flush();
+			return this.rotation.then(next, next);
+		}
+		this.clearTimeout();
+		if (this.buffer.length === 0) return Promise.resolve();
+
+		const chunk = this.buffer.join("");
+		this.buffer = [];
+		this.bufferLength = 0;
+		pending.delete(this);
+
+		return this.send(this.open(), chunk);
+	}
+
+	/**
+	 * Writes the pending lines synchronously, used when the process is exiting.
+	 */
+	public flushSync() {
+		this.clearTimeout();
+		if (this.buffer.length === 0) return;
+
+		this.append(this.buffer.join(""));
+		this.buffer = [];
+		this.bufferLength = 0;
+		pending.delete(this);
+	}
+
+	/**
+	 * Flushes the pending lines and closes the stream.
+	 */
+	public async close() {
+		await this.flush();
+		const stream = this.stream;
+		this.stream = undefined;
+		if (stream) {
+			await new Promise<void>((resolve) => stream.end(resolve));
+		}
+	}
+
+	/**
+	 * Rotates the file: the lines written so far are written and the file is closed,
+	 * then `roll` moves it away. Lines written meanwhile go to the new file.
+	 * Rotations run one after another, each one after the previous roll.
+	 *
+	 * @param roll - Moves the current file away (rename, compress, cleanup...).
+	 * @returns A promise resolved once the file is rolled.
+	 */
+	public rotate(roll: () => unknown): Promise<void> {
+		this.size = 0;
+		if (!this.options.buffered) {
+			return Promise.resolve(roll()).then(() => undefined);
+		}
+
+		// the pending lines belong to the rolled file
+		this.clearTimeout();
+		const chunk = this.buffer.join("");
+		this.buffer = [];
+		this.bufferLength = 0;
+		pending.delete(this);
+
+		const previous = this.rotation ?? Promise.resolve();
+		const rotation = previous
+			// the failure of the previous rotation was reported to its caller
+			.catch(() => undefined)
+			.then(async () => {
+				await this.end(chunk);
+				await roll();
+			});
+		this.rotation = rotation;
+		const done = () => {
+			if (this.rotation === rotation) this.rotation = undefined;
+		};
+		rotation.then(done, done);
+		return rotation;
+	}
+
+	/**
+	 * Returns the open stream, opening the file when needed.
+	 */
+	private open() {
+		if (!this.stream) {
+			const opened = fs.createWriteStream(this.file, { flags: "a" });
+			// pending writes reject with the same error, the next flush opens the file again
+			opened.on("error", () => {
+				if (this.stream === opened) this.stream = undefined;
+			});
+			this.stream = opened;
+		}
+		return this.stream;
+	}
+
+	private send(stream: fs.WriteStream, chunk: string): Promise<void> {
+		return new Promise((resolve, reject) => {
+			stream.write(chunk, (error) => (error ? reject(error) : resolve()));
+		});
+	}
+
+	/**
+	 * Writes the last lines of the file and closes it, before a rotation.
+	 */
+	private async end(chunk: string) {
+		const stream = chunk ? this.open() : this.stream;
+		this.stream = undefined;
+		if (!stream) return;
+		if (chunk) await this.send(stream, chunk);
+		await new Promise<void>((resolve) => stream.end(resolve));
+	}
+
+	/**
+	 * Appends synchronously, creating the folder again if it was removed meanwhile.
+	 */
+	private append(data: string) {
+		try {
+			fs.appendFileSync(this.file, data);
+		} catch (e) {
+			if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+			fs.mkdirSync(path.dirname(this.file), { recursive: true });
+			fs.appendFileSync(this.file, data);
+		}
+	}
+
+	private clearTimeout() {
+		if (this.timeout) {
+			clearTimeout(this.timeout);
+			this.timeout = undefined;
+		}
+	}
+}
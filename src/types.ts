@@ -1,3 +1,5 @@
+import type { LggsInspectOptions } from "./libs/inspect";
+
 /**
  * Represents the components of a formatted time string.
  * @property {number} timestamp - Unix timestamp in milliseconds.
@@ -21,7 +23,7 @@ export type TimerFormat = {
 };
 
 /**
- * Supported logging levels.
+ * Built-in logging levels.
  * - `info`: General informational messages.
  * - `debug`: Debugging information, verbose.
  * - `warn`: Warning conditions that should be addressed.
@@ -29,7 +31,7 @@ export type TimerFormat = {
  * - `error`: Error conditions that might be fatal.
  * - `txt`: Plain text output without specific level formatting.
  */
-export type LggsLevel =
+export type LggsDefaultLevel =
 	| "info"
 	| "debug"
 	| "warn"
@@ -37,6 +39,61 @@ export type LggsLevel =
 	| "error"
 	| "txt";
 
+/**
+ * Registry of custom level names, extended through module augmentation.
+ * Levels declared here are accepted everywhere a level is expected
+ * (`level`, `status`, `levels`...) and get a typed logger method on every logger.
+ * Levels passed to `new Lggs({ levels })` or `logger.config({ levels })` are inferred without it.
+ *
+ * @example
+ * ```ts
+ * declare module "llgs" {
+ *     interface LggsCustomLevels {
+ *         fatal: true;
+ *     }
+ * }
+ * ```
+ */
+// biome-ignore lint/suspicious/noEmptyInterface: extended through module augmentation
+export interface LggsCustomLevels {}
+
+/**
+ * Supported logging levels, built-in and custom ones.
+ */
+export type LggsLevel =
+	| LggsDefaultLevel
+	| Extract<keyof LggsCustomLevels, string>;
+
+/**
+ * Definition of a logging level.
+ */
+export type LggsLevelOptions = {
+	/**
+	 * Numeric severity, lower is more severe (error = 1, warn = 2, info = 3, debug = 4, trace = 5).
+	 * A message is logged when its severity is lower or equal to the configured level severity.
+	 */
+	severity: number;
+	/**
+	 * Console status color (pallet key or color code), used when `status` has no color for the level.
+	 */
+	color?: string;
+	/**
+	 * Writes the level to stderr instead of stdout.
+	 */
+	stderr?: boolean;
+};
+
+/**
+ * Logger methods generated for the custom levels.
+ *
+ * @template T - The logger type returned for chaining.
+ */
+export type LggsLevelMethods<T> = {
+	[K in Exclude<LggsLevel, LggsDefaultLevel>]: (
+		...messages: LggsMessage[]
+	) => T;
+};
+
 /**
  * Function signature for custom formatting kits.
  * Allows transformation of log text, typically for applying styles or colors.
@@ -55,6 +112,73 @@ export type LggsFormatKitFunction = (
  */
 export type LggsMessage = any;
 
+/**
+ * Location in the source code where a log method was called.
+ */
+export type LggsCaller = {
+	/** File path of the call site. */
+	file: string;
+	/** 1-based line number. */
+	line: number;
+	/** 1-based column number. */
+	column: number;
+	/** Name of the calling function, `<anonymous>` when unnamed. */
+	function: string;
+};
+
+/**
+ * Structured log record.
+ * Created once per log call and shared by every plugin, so all outputs
+ * agree on the same timestamp and metadata.
+ */
+export type LggsRecord = {
+	/** Unix timestamp in milliseconds. */
+	timestamp: number;
+	/** Time components of `timestamp`, used by the timer placeholders. */
+	time: TimerFormat;
+	/** The log level. */
+	level: LggsLevel;
+	/** Title of the logger that emitted the record. */
+	title: string;
+	/** Raw arguments passed to the log method. */
+	args: LggsMessage[];
+	/** Fields bound to the logger (see `logger.child()`). */
+	fields: Record<string, unknown>;
+	/** First `Error` found in the arguments, if any. */
+	error?: Error;
+	/** Call site of the log method, when captured. */
+	caller?: LggsCaller;
+	/** Stack of the call without the Lggs frames, set by `trace()`. */
+	stack?: readonly LggsCaller[];
+	/** Elapsed time in milliseconds, set by `timeLog()`, `timeEnd()` and spans. */
+	duration?: number;
+	/** Nesting depth of `group()`, messages are indented by the outputs. */
+	group?: number;
+	/** Inspect options of this call, set by `dir()`, override the configured ones. */
+	inspect?: LggsInspectOptions;
+};
+
+/**
+ * Handle returned by `logger.span()`, measuring the time elapsed since its creation.
+ */
+export type LggsSpan = {
+	/** Name of the span, prefixed to its messages. */
+	name: string;
+	/** Milliseconds elapsed since the span started. */
+	elapsed(): number;
+	/** Logs the elapsed time with extra messages, the span keeps running. */
+	log(...messages: LggsMessage[]): LggsSpan;
+	/** Logs the elapsed time with extra messages and returns it. */
+	end(...messages: LggsMessage[]): number;
+};
+
+/**
+ * Logger given to the plugins in `onInit`, e.g. to log their own messages.
+ */
+export type LggsPluginLogger = {
+	controller(messages: LggsMessage[], level: LggsLevel): unknown;
+};
+
 /**
  * Definition of a Lggs Plugin.
  * Contains metadata, lifecycle hooks, and default configuration.
@@ -69,39 +193,102 @@ export type LggsPluginData<PluginConfig extends object = {}> = {
 	/**
 	 * Called when the logger is initialized or configured.
 	 * @param config - The fully merged configuration.
+	 * @param logger - The logger the plugin is attached to, not set for global plugins.
 	 */
-	onInit?(config: PluginConfig): unknown;
+	onInit?(config: PluginConfig, logger?: LggsPluginLogger): unknown;
+	/**
+	 * Execution order, plugins with a higher priority run first.
+	 * @default 0
+	 */
+	priority?: number;
+	/**
+	 * Idents of the plugins that must run before this one.
+	 */
+	after?: string[];
+	/**
+	 * Idents of the plugins that must run after this one.
+	 */
+	before?: string[];
+	/**
+	 * Every plugin gets the same frozen configuration and messages.
+	 * When `true`, the messages returned by `onPreMessage` are passed to the following plugins,
+	 * and returning `undefined` drops the message for them.
+	 */
+	transform?: boolean;
+	/**
+	 * Maximum number of pending `onSend` promises.
+	 * Messages logged while the limit is reached are dropped and reported to `onError`.
+	 * Unlimited when not set.
+	 */
+	concurrency?: number;
+	/**
+	 * Tells whether the plugin outputs a level, without building the message.
+	 * Used by `logger.isLevelEnabled()` to skip work when no plugin accepts the level.
+	 * Plugins without this hook accept every level.
+	 * @param config - The current configuration.
+	 * @param level - The log level.
+	 */
+	isLevelEnabled?(config: PluginConfig, level: LggsLevel): boolean;
+	/**
+	 * Middleware stage, called once per log call before every sink (`onPreMessage`, `onMessage`, `onSend`).
+	 * The returned record is shared by all the plugins, its `args` are the messages they receive.
+	 * @param config - The current configuration.
+	 * @param record - The frozen record of the current log call.
+	 * @returns The same record, a new one (e.g. `{ ...record, fields: {...} }`), or `undefined` to drop the message.
+	 */
+	onRecord?(config: PluginConfig, record: LggsRecord): LggsRecord | undefined;
 	/**
 	 * Called before a message is processed. Can transform the message or prevent logging.
 	 * @param config - The current configuration.
 	 * @param level - The log level.
 	 * @param messages - The messages to be logged.
+	 * @param record - The structured record of the current log call.
 	 * @returns Modified messages array, or `undefined` to cancel logging.
 	 */
 	onPreMessage?(
 		config: PluginConfig,
 		level: LggsLevel,
 		messages: LggsMessage[],
+		record: LggsRecord,
 	): LggsMessage[] | undefined;
 	/**
 	 * Called to format the message. Returns the final string representation.
 	 * @param config - The current configuration.
 	 * @param level - The log level.
 	 * @param messages - The processed messages.
+	 * @param record - The structured record of the current log call.
 	 * @returns The formatted log string.
 	 */
 	onMessage?(
 		config: PluginConfig,
 		level: LggsLevel,
 		messages: LggsMessage[],
+		record: LggsRecord,
 	): string;
 	/**
 	 * Called to output the message (e.g., to console, file, or network).
+	 * A returned promise is tracked by `logger.drain()`, its rejection is passed to `onError`.
 	 * @param config - The current configuration.
 	 * @param level - The log level.
 	 * @param message - The final formatted message string.
+	 * @param record - The structured record of the current log call.
+	 */
+	onSend?(
+		config: PluginConfig,
+		level: LggsLevel,
+		message: string,
+		record: LggsRecord,
+	): unknown;
+	/**
+	 * Called by `logger.flush()`, writes any pending output.
+	 * @param config - The current configuration.
+	 */
+	onFlush?(config: PluginConfig): unknown;
+	/**
+	 * Called by `logger.close()`, flushes pending output and releases resources (files, sockets, timers).
+	 * @param config - The current configuration.
 	 */
-	onSend?(config: PluginConfig, level: LggsLevel, message: string): unknown;
+	onClose?(config: PluginConfig): unknown;
 	/**
 	 * Called when an error occurs within the plugin lifecycle.
 	 * @param config - The current configuration.
@@ -1,5 +1,6 @@
 import { describe, it, expect, mock, beforeAll, afterAll } from "bun:test";
 import Lggs from "../src/lggs";
+import { ConsolePlugin } from "../src/libs/plugins/console";
 import { setRuntime, Runtime } from "../src/libs/utils";
 
 describe("Lggs Console Plugin", () => {
@@ -75,4 +76,268 @@ describe("Lggs Console Plugin", () => {
             process.stdout.write = originalStdout;
         }
     });
+
+    it("should generate methods for custom levels", () => {
+        const logger = Lggs.create({
+            title: "CustomLevels",
+            console: true,
+            register: false,
+            level: "info",
+            levels: {
+                fatal: { severity: 0, color: "red70", stderr: true },
+                http: { severity: 4 },
+            },
+        });
+
+        const originalStderr = process.stderr.write;
+        const originalStdout = process.stdout.write;
+        const mockStderr = mock(() => true);
+        const mockStdout = mock(() => true);
+        process.stderr.write = mockStderr as any;
+        process.stdout.write = mockStdout as any;
+
+        try {
+            expect(typeof logger.fatal).toBe("function");
+            expect(logger.fatal("Fatal crash")).toBe(logger);
+            expect(mockStderr).toHaveBeenCalled();
+            expect(mockStderr.mock.calls[0][0].toString()).toContain("fatal");
+
+            // http (4) is above the info level (3)
+            logger.http("GET /");
+            expect(mockStdout).not.toHaveBeenCalled();
+            logger.config({ level: "http" });
+            logger.http("GET /");
+            expect(mockStdout).toHaveBeenCalled();
+        } finally {
+            process.stderr.write = originalStderr;
+            process.stdout.write = originalStdout;
+        }
+    });
+
+    it("should collapse consecutive identical messages", async () => {
+        const logger = new Lggs({
+            title: "Collapse",
+            register: false,
+            disable_colors: true,
+            format: "[{status}] {message}",
+            collapse: true,
+        });
+
+        const originalStdout = process.stdout.write;
+        const originalTTY = process.stdout.isTTY;
+        const mockStdout = mock(() => true);
+        process.stdout.write = mockStdout as any;
+
+        try {
+            process.stdout.isTTY = false;
+            for (let i = 0; i < 3; i++) logger.info("Reconnecting...");
+            logger.info("Connected");
+            await logger.flush();
+            expect(mockStdout.mock.calls.map((call: any[]) => call[0].toString())).toEqual([
+                "[info] Reconnecting...\n",
+                "[info] Reconnecting... (x3)\n",
+                "[info] Connected\n",
+            ]);
+
+            mockStdout.mockClear();
+            process.stdout.isTTY = true;
+            logger.info("Retrying");
+            logger.info("Retrying");
+            expect(mockStdout.mock.calls.map((call: any[]) => call[0].toString())).toEqual([
+                "[info] Retrying\n",
+                "\x1b[1A\x1b[2K[info] Retrying (x2)\n",
+            ]);
+
+            // multi-line messages are rewritten from their first line
+            mockStdout.mockClear();
+            logger.info("Retrying\nin 1s");
+            logger.info("Retrying\nin 1s");
+            expect(mockStdout.mock.calls.map((call: any[]) => call[0].toString())).toEqual([
+                "[info] Retrying\nin 1s\n",
+                "\x1b[2A\x1b[2K[info] Retrying\nin 1s (x2)\n",
+            ]);
+
+            // the line of another logger printed in between is not overwritten
+            const other = new Lggs({ register: false, disable_colors: true, format: "[{status}] {message}" });
+            mockStdout.mockClear();
+            logger.info("Waiting");
+            other.info("Ready");
+            logger.info("Waiting");
+            expect(mockStdout.mock.calls.map((call: any[]) => call[0].toString())).toEqual([
+                "[info] Waiting\n",
+                "[info] Ready\n",
+                "[info] Waiting\n",
+            ]);
+        } finally {
+            process.stdout.write = originalStdout;
+            process.stdout.isTTY = originalTTY;
+        }
+    });
+
+    it("should show the caller location placeholders", () => {
+        const logger = Lggs.create({
+            title: "Caller",
+            register: false,
+            disable_colors: true,
+            caller: true,
+            format: "{file}:{line} {function} {message}",
+            levels: { notice: { severity: 3 } },
+        });
+
+        const originalStdout = process.stdout.write;
+        const mockStdout = mock(() => true);
+        process.stdout.write = mockStdout as any;
+
+        try {
+            function handleRequest() {
+                logger.info("from handler");
+                logger.notice("custom level");
+            }
+            handleRequest();
+            const lines = mockStdout.mock.calls.map((call: any[]) => call[0].toString());
+            // function names depend on the runtime transpilation
+            expect(lines[0]).toMatch(/^tests\/console\.test\.ts:\d+ \S+ from handler\n$/);
+            expect(lines[1]).toMatch(/^tests\/console\.test\.ts:\d+ \S+ custom level\n$/);
+            expect(Number(lines[1].split(/[: ]/)[1])).toBe(Number(lines[0].split(/[: ]/)[1]) + 1);
+        } finally {
+            process.stdout.write = originalStdout;
+        }
+    });
+
+    it("should append the stack of the call to trace messages", () => {
+        const logger = new Lggs({
+            title: "Trace",
+            level: "trace",
+            register: false,
+            disable_colors: true,
+            format: "{status} {message}",
+            trace_depth: 1,
+        });
+
+        const originalStdout = process.stdout.write;
+        const mockStdout = mock(() => true);
+        process.stdout.write = mockStdout as any;
+
+        try {
+            logger.trace("checkpoint");
+            logger.info("no stack");
+            const lines = mockStdout.mock.calls.map((call: any[]) => call[0].toString());
+            // Lggs frames are skipped, the first frame is this test
+            expect(lines[0]).toMatch(/^trace checkpoint\n {4}at \S+ \(tests\/console\.test\.ts:\d+:\d+\)\n$/);
+            expect(lines[1]).toBe("info no stack\n");
+        } finally {
+            process.stdout.write = originalStdout;
+        }
+    });
+
+    it("should render errors with their code, properties and cause without colors", () => {
+        const logger = new Lggs({ title: "Errors", register: false, disable_colors: true, format: "{message}" });
+
+        const originalStderr = process.stderr.write;
+        const mockStderr = mock(() => true);
+        process.stderr.write = mockStderr as any;
+
+        try {
+            const cause = Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+            const error = Object.assign(new Error("Request failed", { cause }), { status: 502 });
+            logger.error("fetch", error);
+            const output = mockStderr.mock.calls[0][0].toString();
+            expect(output).toStartWith("fetch Error: Request failed\n    at ");
+            expect(output).toContain("\n    status: 502\n");
+            expect(output).toMatch(/\n {4}\[cause\]: Error \[ECONNRESET\]: socket hang up\n {8}at \S+ \(.*console\.test\.ts:\d+:\d+\)/);
+        } finally {
+            process.stderr.write = originalStderr;
+        }
+    });
+
+    it("should apply the inspect options of the logger and of the console", () => {
+        const logger = new Lggs({
+            title: "Inspect",
+            register: false,
+            disable_colors: true,
+            format: "{message}",
+            inspect: { depth: 0 },
+            console_inspect: { maxArrayLength: 2 },
+        });
+
+        const originalStdout = process.stdout.write;
+        const mockStdout = mock(() => true);
+        process.stdout.write = mockStdout as any;
+
+        try {
+            logger.info({ nested: { deep: true } });
+            logger.info("list %o", [1, 2, 3, 4]);
+            // dir() options only apply to its own call
+            logger.dir({ nested: { deep: true } }, { depth: 1 });
+            logger.info({ nested: { deep: true } });
+            const lines = mockStdout.mock.calls.map((call: any[]) => call[0].toString());
+            expect(lines[0]).toBe("{ nested: [Object] }\n");
+            expect(lines[1]).toBe("list [ 1, 2, ... 2 more items ]\n");
+            expect(lines[2]).toBe("{ nested: { deep: true } }\n");
+            expect(lines[3]).toBe("{ nested: [Object] }\n");
+        } finally {
+            process.stdout.write = originalStdout;
+        }
+    });
+
+    it("should print custom levels with the browser console", () => {
+        const logger = Lggs.create({
+            title: "BrowserLevels",
+            register: false,
+            disable_colors: true,
+            format: "{status} {message}",
+            levels: {
+                fatal: { severity: 0, stderr: true },
+                notice: { severity: 3 },
+            },
+        });
+
+        const originalError = console.error;
+        const originalLog = console.log;
+        const errors: string[] = [];
+        const logs: string[] = [];
+        console.error = (message: string) => errors.push(message);
+        console.log = (message: string) => logs.push(message);
+        setRuntime(Runtime.Browser);
+
+        try {
+            logger.fatal("crash");
+            logger.notice("deploy");
+            expect(errors).toEqual(["fatal crash"]);
+            expect(logs).toEqual(["notice deploy"]);
+        } finally {
+            setRuntime(Runtime.Node);
+            console.error = originalError;
+            console.log = originalLog;
+        }
+    });
+
+    it("should run transform plugins listed before the global console plugin", () => {
+        const MaskPlugin = {
+            ident: "mask",
+            default: {},
+            transform: true,
+            onPreMessage: (_config: any, _level: any, messages: any[]) =>
+                messages.map((message) => (typeof message === "string" ? message.replace(/\d{16}/g, "[redacted]") : message)),
+        };
+        const logger = new Lggs({
+            title: "MaskTest",
+            register: false,
+            disable_colors: true,
+            format: "{message}",
+            plugins: [MaskPlugin, ConsolePlugin],
+        });
+
+        const originalStdout = process.stdout.write;
+        const mockStdout = mock(() => true);
+        process.stdout.write = mockStdout as any;
+
+        try {
+            logger.info("card 4111111111111111");
+            const lines = mockStdout.mock.calls.map((call: any[]) => call[0].toString());
+            expect(lines).toEqual(["card [redacted]\n"]);
+        } finally {
+            process.stdout.write = originalStdout;
+        }
+    });
 });
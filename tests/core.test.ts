@@ -1,6 +1,12 @@
 import { describe, it, expect } from "bun:test";
+import { spawnSync } from "child_process";
+import path from "path";
 import Lggs from "../src/lggs";
 import { ConsolePlugin } from "../src/libs/plugins/console";
+import { LggsFormatStack, LggsParseStack } from "../src/libs/caller";
+import { LggsFormatDuration } from "../src/libs/utils";
+import { LggsFormatError } from "../src/libs/errors";
+import _inspect from "../src/libs/inspect";
 
 describe("Lggs Core", () => {
     it("should instantiate with default configuration", () => {
@@ -56,4 +62,568 @@ describe("Lggs Core", () => {
         // Reset
         Lggs.config({ level: "info" });
     });
+
+    it("should create child loggers with bound fields", () => {
+        const parent = new Lggs({ title: "Parent", level: "warn", fields: { app: "api" } });
+        const child = parent.child({ title: "Child", requestId: "a1b2" });
+
+        expect(child.parent).toBe(parent);
+        expect(child.allconfigs.title).toBe("Child");
+        expect(child.allconfigs.level).toBe("warn");
+        expect(child.allconfigs.fields).toEqual({ app: "api", requestId: "a1b2" });
+
+        const grandchild = child.child({ tenant: "acme" }, { level: "debug" });
+        expect(grandchild.allconfigs.title).toBe("Child");
+        expect(grandchild.allconfigs.level).toBe("debug");
+        expect(grandchild.allconfigs.fields).toEqual({ app: "api", requestId: "a1b2", tenant: "acme" });
+    });
+
+    it("should flow parent config changes down to children", () => {
+        const parent = new Lggs({ title: "Parent" });
+        const child = parent.child({ module: "db" });
+        expect(child.allconfigs.level).toBe("info");
+
+        parent.config({ level: "error" });
+        expect(child.allconfigs.level).toBe("error");
+
+        const customPlugin = { ident: "child-flow-plugin", default: { flow: true } };
+        parent.plugin(customPlugin);
+        expect((child.allconfigs as any).flow).toBe(true);
+    });
+
+    it("should share a single record between plugin hooks", () => {
+        const records: any[] = [];
+        const recorder = {
+            ident: "record-plugin",
+            default: {},
+            onPreMessage: (_c: any, _l: any, messages: any[], record: any) => {
+                records.push(record);
+                return messages;
+            },
+            onMessage: (_c: any, _l: any, _m: any[], record: any) => {
+                records.push(record);
+                return "";
+            },
+            onSend: (_c: any, _l: any, _m: string, record: any) => {
+                records.push(record);
+            },
+        };
+        const logger = new Lggs({ title: "RecordTest", plugins: [recorder], fields: { tenant: "acme" } });
+        const error = new Error("boom");
+        logger.warn("failed", error);
+
+        expect(records.length).toBe(3);
+        expect(records[0]).toBe(records[1]);
+        expect(records[1]).toBe(records[2]);
+        expect(records[0].level).toBe("warn");
+        expect(records[0].title).toBe("RecordTest");
+        expect(records[0].args).toEqual(["failed", error]);
+        expect(records[0].fields).toEqual({ tenant: "acme" });
+        expect(records[0].error).toBe(error);
+        expect(typeof records[0].timestamp).toBe("number");
+    });
+
+    it("should report enabled levels and skip lazy messages", () => {
+        const logger = new Lggs({ title: "LazyTest", level: "info", register: false });
+        expect(logger.isLevelEnabled("info")).toBe(true);
+        expect(logger.isLevelEnabled("debug")).toBe(false);
+
+        let evaluated = 0;
+        const dump = () => {
+            evaluated++;
+            return "expensive dump";
+        };
+        logger.debug(dump);
+        expect(evaluated).toBe(0);
+
+        logger.config({ level: "debug", console: false, register: true, register_dir: "./test_logs_lazy" });
+        expect(logger.isLevelEnabled("debug")).toBe(true);
+        logger.debug(dump);
+        expect(evaluated).toBe(1);
+
+        require("fs").rmSync("./test_logs_lazy", { recursive: true, force: true });
+    });
+
+    it("should invalidate enabled levels on global changes", () => {
+        const logger = new Lggs({ title: "GlobalLevel", register: false });
+        expect(logger.isLevelEnabled("debug")).toBe(false);
+        Lggs.config({ level: "debug" });
+        try {
+            expect(logger.isLevelEnabled("debug")).toBe(true);
+        } finally {
+            Lggs.config({ level: "info" });
+        }
+    });
+
+    it("should cache the merged configuration until it changes", () => {
+        const logger = new Lggs({ title: "CacheTest", register: false });
+        const first = logger.allconfigs;
+        expect(logger.allconfigs).toBe(first);
+
+        logger.config({ title: "CacheTest2" });
+        const second = logger.allconfigs;
+        expect(second).not.toBe(first);
+        expect(second.title).toBe("CacheTest2");
+
+        Lggs.config({ level: "info" });
+        expect(logger.allconfigs).not.toBe(second);
+
+        const child = logger.child({ module: "cache" });
+        const childConfigs = child.allconfigs;
+        expect(child.allconfigs).toBe(childConfigs);
+        logger.config({ level: "warn" });
+        expect(child.allconfigs).not.toBe(childConfigs);
+        expect(child.allconfigs.level).toBe("warn");
+    });
+
+    it("should instantiate plugin factories once", () => {
+        let created = 0;
+        const sent: number[] = [];
+        const CounterPlugin = () => {
+            created++;
+            let count = 0;
+            return {
+                ident: "counter",
+                default: {},
+                onMessage: () => String(++count),
+                onSend: (_config: any, _level: any, message: string) => {
+                    sent.push(Number(message));
+                },
+            };
+        };
+
+        const logger = new Lggs({ title: "FactoryTest", register: false, console: false, plugins: [CounterPlugin] });
+        logger.info("one");
+        logger.config({ level: "debug" });
+        logger.info("two");
+        logger.child({ module: "factory" }).info("three");
+
+        expect(created).toBe(1);
+        expect(sent).toEqual([1, 2, 3]);
+    });
+
+    it("should flush and close every plugin", async () => {
+        const calls: string[] = [];
+        const errors: Error[] = [];
+        const SinkPlugin = {
+            ident: "sink",
+            default: {},
+            onFlush: async () => {
+                calls.push("flush");
+            },
+            onClose: () => {
+                calls.push("close");
+                throw new Error("socket closed");
+            },
+            onError: (_config: any, error: Error) => {
+                errors.push(error);
+            },
+        };
+
+        const logger = new Lggs({ title: "CloseTest", register: false, console: false, plugins: [SinkPlugin] });
+        await logger.flush();
+        expect(calls).toEqual(["flush"]);
+
+        await logger.close();
+        expect(calls).toEqual(["flush", "flush", "close"]);
+        expect(errors.map((error) => error.message)).toEqual(["socket closed"]);
+    });
+
+    it("should track async sends and route rejections to onError", async () => {
+        const delivered: string[] = [];
+        const errors: string[] = [];
+        const AsyncPlugin = {
+            ident: "async-sink",
+            default: {},
+            concurrency: 2,
+            onMessage: (_config: any, _level: any, messages: any[]) => messages.join(" "),
+            onSend: async (_config: any, _level: any, message: string) => {
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                if (message === "fail") throw new Error("network down");
+                delivered.push(message);
+            },
+            onError: (_config: any, error: Error) => {
+                errors.push(error.message);
+            },
+        };
+
+        const logger = new Lggs({ title: "AsyncTest", register: false, console: false, plugins: [AsyncPlugin] });
+        logger.info("one");
+        logger.info("fail");
+        logger.info("dropped");
+        expect(errors).toEqual(['Plugin "async-sink" has 2 pending sends, message dropped']);
+
+        await logger.drain();
+        expect(delivered).toEqual(["one"]);
+        expect(errors).toContain("network down");
+
+        logger.info("two");
+        await logger.drain();
+        expect(delivered).toEqual(["one", "two"]);
+    });
+
+    it("should isolate plugins unless they opt in to transform", () => {
+        const seen: string[] = [];
+        const MutatingPlugin = {
+            ident: "mutating",
+            default: {},
+            onPreMessage: (config: any, _level: any, messages: any[]) => {
+                expect(() => {
+                    config.level = "trace";
+                }).toThrow();
+                expect(() => messages.push("leak")).toThrow();
+                return [...messages, "own copy"];
+            },
+        };
+        const UpperPlugin = {
+            ident: "upper",
+            default: {},
+            transform: true,
+            onPreMessage: (_config: any, _level: any, messages: any[]) =>
+                messages[0] === "drop" ? undefined : messages.map((message) => String(message).toUpperCase()),
+        };
+        const SinkPlugin = {
+            ident: "sink",
+            default: {},
+            onMessage: (config: any, _level: any, messages: any[]) => `${config.level} ${messages.join(" ")}`,
+            onSend: (_config: any, _level: any, message: string) => {
+                seen.push(message);
+            },
+        };
+
+        const logger = new Lggs({
+            title: "IsolationTest",
+            register: false,
+            console: false,
+            plugins: [MutatingPlugin, UpperPlugin, SinkPlugin],
+        });
+        logger.info("hello", "world");
+        logger.info("drop");
+
+        expect(seen).toEqual(["info HELLO WORLD"]);
+        expect(Object.isFrozen(logger.allconfigs)).toBe(true);
+    });
+
+    it("should order plugins by priority and dependencies", () => {
+        const order: string[] = [];
+        const tracker = (ident: string, extra: object = {}) => ({
+            ident,
+            default: {},
+            ...extra,
+            onPreMessage: () => {
+                order.push(ident);
+                return undefined;
+            },
+        });
+
+        const logger = new Lggs({
+            title: "OrderTest",
+            register: false,
+            console: false,
+            plugins: [
+                tracker("late", { priority: -1 }),
+                tracker("sink"),
+                tracker("enricher", { before: ["sink"] }),
+                tracker("first", { priority: 10 }),
+                tracker("audit", { priority: 10, after: ["sink"] }),
+            ],
+        });
+        logger.info("order");
+
+        expect(order).toEqual(["first", "enricher", "sink", "audit", "late"]);
+    });
+
+    it("should warn on duplicate idents and remove plugins", () => {
+        const warnings: string[] = [];
+        const emitWarning = process.emitWarning;
+        process.emitWarning = ((message: string) => {
+            warnings.push(message);
+        }) as typeof process.emitWarning;
+        try {
+            const logger = new Lggs({
+                title: "RemoveTest",
+                register: false,
+                console: false,
+                plugins: [
+                    { ident: "dup", default: {} },
+                    { ident: "dup", default: {} },
+                    ConsolePlugin,
+                ],
+            });
+            logger.info("duplicate");
+            logger.info("duplicate");
+            expect(warnings).toEqual([
+                'Plugin ident "dup" is used by several plugins, the last one replaces the others',
+            ]);
+
+            const child = logger.child({ module: "remove" });
+            expect(logger.hasPlugin("lggs-console")).toBe(true);
+            expect(logger.removePlugin("lggs-console")).toBe(true);
+            expect(logger.hasPlugin("lggs-console")).toBe(false);
+            expect(child.hasPlugin("lggs-console")).toBe(false);
+            expect(logger.removePlugin("lggs-console")).toBe(false);
+
+            logger.plugin(ConsolePlugin);
+            expect(logger.hasPlugin("lggs-console")).toBe(true);
+        } finally {
+            process.emitWarning = emitWarning;
+        }
+    });
+
+    it("should run record middlewares once before every sink", () => {
+        let calls = 0;
+        const outputs: string[] = [];
+        const EnrichPlugin = {
+            ident: "enrich",
+            default: {},
+            onRecord: (_config: any, record: any) => {
+                calls++;
+                if (record.args[0] === "healthcheck") return undefined;
+                return { ...record, args: [...record.args, "(enriched)"], fields: { ...record.fields, host: "web-1" } };
+            },
+        };
+        const sink = (ident: string) => ({
+            ident,
+            default: {},
+            onMessage: (_config: any, _level: any, messages: any[], record: any) =>
+                `${ident}: ${messages.join(" ")} host=${record.fields.host}`,
+            onSend: (_config: any, _level: any, message: string) => {
+                outputs.push(message);
+            },
+        });
+
+        const logger = new Lggs({
+            title: "MiddlewareTest",
+            register: false,
+            console: false,
+            plugins: [sink("a"), sink("b"), EnrichPlugin],
+        });
+        logger.info("GET /users");
+        logger.info("healthcheck");
+
+        expect(calls).toBe(2);
+        expect(outputs).toEqual(["a: GET /users (enriched) host=web-1", "b: GET /users (enriched) host=web-1"]);
+
+        const middlewareOnly = new Lggs({ title: "MiddlewareOnly", register: false, console: false, plugins: [EnrichPlugin] });
+        expect(middlewareOnly.isLevelEnabled("info")).toBe(false);
+    });
+
+    it("should route timers and spans through the plugins", () => {
+        const sent: { message: string; duration?: number }[] = [];
+        const SinkPlugin = {
+            ident: "sink",
+            default: {},
+            onMessage: (_config: any, level: string, messages: any[]) => `${level} ${messages.join(" ")}`,
+            onSend: (_config: any, _level: any, message: string, record: any) => {
+                sent.push({ message, duration: record.duration });
+            },
+        };
+        const logger = new Lggs({ title: "TimerTest", register: false, console: false, plugins: [SinkPlugin] });
+
+        logger.time("boot");
+        logger.timeLog("boot", "config loaded");
+        logger.timeEnd("boot");
+        logger.timeEnd("boot");
+
+        expect(sent[0].message).toMatch(/^info boot: \d+\.\d{3}ms config loaded$/);
+        expect(typeof sent[0].duration).toBe("number");
+        expect(sent[1].message).toMatch(/^info boot: \d+\.\d{3}ms$/);
+        expect(sent[2]).toEqual({ message: 'warn No such label "boot"', duration: undefined });
+
+        const span = logger.span("db.query", "debug");
+        const duration = span.end("rows=10");
+        expect(duration).toBeGreaterThanOrEqual(0);
+        expect(sent.length).toBe(4);
+        expect(sent[3].message).toMatch(/^debug db.query: \d+\.\d{3}ms rows=10$/);
+        expect(sent[3].duration).toBe(duration);
+
+        expect(LggsFormatDuration(1500)).toBe("1.500s");
+        expect(LggsFormatDuration(125000)).toBe("2m 5.000s");
+    });
+
+    it("should route the inherited console methods through the plugins", () => {
+        const sent: { level: string; text: string; group?: number }[] = [];
+        const SinkPlugin = {
+            ident: "sink",
+            default: {},
+            onMessage: (_config: any, _level: any, messages: any[]) => messages.join(" "),
+            onSend: (_config: any, level: string, text: string, record: any) => {
+                sent.push({ level, text, group: record.group });
+            },
+        };
+        const logger = new Lggs({ title: "ConsoleMethods", register: false, console: false, plugins: [SinkPlugin] });
+
+        logger.table([{ a: 1, b: "x" }, { a: 2 }]);
+        logger.assert(true, "never logged");
+        logger.assert(false, "user %s missing", "ana");
+        logger.count();
+        logger.count();
+        logger.countReset();
+        logger.count();
+        logger.countReset("unknown");
+        logger.group("Request");
+        logger.info("inside");
+        logger.groupEnd();
+        logger.info("outside");
+
+        expect(sent[0]).toEqual({
+            level: "info",
+            text: [
+                "┌─────────┬───┬───┐",
+                "│ (index) │ a │ b │",
+                "├─────────┼───┼───┤",
+                "│ 0       │ 1 │ x │",
+                "│ 1       │ 2 │   │",
+                "└─────────┴───┴───┘",
+            ].join("\n"),
+            group: undefined,
+        });
+        expect(sent.slice(1).map(({ level, text }) => `${level} ${text}`)).toEqual([
+            "error Assertion failed: user %s missing ana",
+            "info default: 1",
+            "info default: 2",
+            "info default: 1",
+            'warn Count for "unknown" does not exist',
+            "info Request",
+            "info inside",
+            "info outside",
+        ]);
+        expect(sent.map(({ group }) => group).slice(-3)).toEqual([undefined, 1, undefined]);
+    });
+
+    it("should parse V8, Bun and Firefox stack frames", () => {
+        const frames = LggsParseStack(
+            [
+                "Error: boom",
+                "    at handleRequest (/app/src/server.ts:12:5)",
+                "    at async Router.dispatch (file:///app/src/router.ts:40:11)",
+                "    at /app/src/index.ts:3",
+                "render@http://localhost/app.js:7:9",
+            ].join("\n"),
+        );
+        expect(frames).toEqual([
+            { file: "/app/src/server.ts", line: 12, column: 5, function: "handleRequest" },
+            { file: "/app/src/router.ts", line: 40, column: 11, function: "Router.dispatch" },
+            { file: "/app/src/index.ts", line: 3, column: 0, function: "<anonymous>" },
+            { file: "http://localhost/app.js", line: 7, column: 9, function: "render" },
+        ]);
+    });
+
+    it("should format stacks with dimmed or collapsed node_modules frames", () => {
+        const frames = [
+            { file: "src/server.ts", line: 12, column: 5, function: "handleRequest" },
+            { file: "/app/node_modules/express/lib/router.js", line: 1, column: 2, function: "next" },
+            { file: "/app/node_modules/express/lib/layer.js", line: 3, column: 4, function: "handle" },
+            { file: "src/index.ts", line: 3, column: 0, function: "<anonymous>" },
+        ];
+        expect(LggsFormatStack(frames, false, (line) => `<${line}>`)).toBe(
+            [
+                "    at handleRequest (src/server.ts:12:5)",
+                "<    at next (/app/node_modules/express/lib/router.js:1:2)>",
+                "<    at handle (/app/node_modules/express/lib/layer.js:3:4)>",
+                "    at <anonymous> (src/index.ts:3:0)",
+            ].join("\n"),
+        );
+        expect(LggsFormatStack(frames, true)).toBe(
+            [
+                "    at handleRequest (src/server.ts:12:5)",
+                "    ... 2 frames in node_modules",
+                "    at <anonymous> (src/index.ts:3:0)",
+            ].join("\n"),
+        );
+    });
+
+    it("should format aggregated and circular errors", () => {
+        const error: any = new AggregateError([new TypeError("bad input"), "not an error"], "all failed");
+        error.stack = "AggregateError: all failed\n    at main (/app/node_modules/some-lib/index.js:1:2)";
+        error.errors[0].stack = undefined;
+        error.cause = error;
+
+        expect(LggsFormatError(error, true)).toBe(
+            [
+                "AggregateError: all failed",
+                "    at main (/app/node_modules/some-lib/index.js:1:2)",
+                "    [errors][0]: TypeError: bad input",
+                `    [errors][1]: ${_inspect("not an error", true)}`,
+                "    [cause]: [Circular]",
+            ].join("\n"),
+        );
+    });
+
+    it("should report rejected sends of plugins without onError as warnings", async () => {
+        const warnings: string[] = [];
+        const unhandled: unknown[] = [];
+        const originalEmitWarning = process.emitWarning;
+        process.emitWarning = ((message: string) => warnings.push(message)) as any;
+        const onUnhandled = (reason: unknown) => unhandled.push(reason);
+        process.on("unhandledRejection", onUnhandled);
+
+        try {
+            const logger = new Lggs({
+                title: "RejectTest",
+                register: false,
+                console: false,
+                plugins: [{ ident: "failing-sink", default: {}, onMessage: () => "", onSend: () => Promise.reject(new Error("sink down")) }],
+            });
+            logger.info("lost");
+            await logger.drain();
+            await new Promise((resolve) => setTimeout(resolve, 5));
+
+            expect(warnings).toEqual(['Plugin "failing-sink" failed to send: sink down']);
+            expect(unhandled).toEqual([]);
+        } finally {
+            process.emitWarning = originalEmitWarning;
+            process.off("unhandledRejection", onUnhandled);
+        }
+    });
+
+    it("should initialize every plugin instance once, including global plugins added later", () => {
+        const inits: any[] = [];
+        const TrackedPlugin = () => {
+            const data = {
+                ident: "tracked",
+                default: {},
+                onInit: (_config: any, logger: any) => inits.push({ data, logger }),
+                onMessage: () => "",
+            };
+            return data;
+        };
+
+        const logger = new Lggs({ title: "InitTest", register: false, console: false, plugins: [TrackedPlugin] });
+        for (let i = 0; i < 3; i++) logger.child({ title: `child-${i}` }).info("request");
+        expect(inits.length).toBe(1);
+        expect(inits[0].logger).toBe(logger);
+
+        const GlobalPlugin = () => {
+            const data = {
+                ident: "global-tracked",
+                default: {},
+                onInit: (_config: any, current: any) => inits.push({ data, logger: current }),
+                onMessage: () => "",
+            };
+            return data;
+        };
+        try {
+            Lggs.config({ plugins: [GlobalPlugin] });
+            logger.info("after global plugin");
+            const used = logger.instances.get(GlobalPlugin);
+            expect(inits.filter((init) => init.data === used).map((init) => init.logger)).toEqual([logger]);
+        } finally {
+            Lggs.plugins.splice(Lggs.plugins.indexOf(GlobalPlugin), 1);
+            Lggs.config({});
+        }
+    });
+
+    it("should report failed plugins closed on exit as warnings", () => {
+        const script = `
+            const { Lggs } = require(${JSON.stringify(path.resolve("src/lggs.ts"))});
+            const logger = new Lggs({ register: false });
+            logger.plugin({ ident: "broken", default: {}, onClose: () => { throw new Error("socket closed"); } });
+            logger.closeOnExit();
+        `;
+        const result = spawnSync(process.execPath, ["-e", script], { encoding: "utf-8" });
+        expect(result.status).toBe(0);
+        expect(result.stderr).toContain("LggsWarning");
+        expect(result.stderr).toContain("socket closed");
+    });
 });
@@ -0,0 +1,116 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import Lggs from "../src/lggs";
+import { JsonPlugin } from "../src/libs/plugins/json";
+import fs from "fs";
+import path from "path";
+
+describe("Lggs Json Plugin", () => {
+    const testLogDir = "./test_logs_json";
+
+    afterAll(() => {
+        if (fs.existsSync(testLogDir)) {
+            fs.rmSync(testLogDir, { recursive: true, force: true });
+        }
+    });
+
+    const readLines = (file: string) =>
+        fs.readFileSync(file, "utf-8").trim().split("\n").map((line) => JSON.parse(line));
+
+    it("should write one JSON object per line without markup", () => {
+        const file = path.join(testLogDir, "default.ndjson");
+        const logger = new Lggs({
+            title: "JsonTest",
+            console: false,
+            register: false,
+            json_file: file,
+            plugins: [JsonPlugin],
+            fields: { requestId: "a1b2" },
+        });
+
+        logger.info("Hello [World].red *bold*");
+        logger.warn("Second line");
+
+        const lines = readLines(file);
+        expect(lines.length).toBe(2);
+        expect(lines[0].msg).toBe("Hello World bold");
+        expect(lines[0].level).toBe("info");
+        expect(lines[0].title).toBe("JsonTest");
+        expect(lines[0].requestId).toBe("a1b2");
+        expect(new Date(lines[0].time).toISOString()).toBe(lines[0].time);
+        expect(lines[1].level).toBe("warn");
+    });
+
+    it("should support custom keys, epoch timestamps and errors", () => {
+        const file = path.join(testLogDir, "custom.ndjson");
+        const logger = new Lggs({
+            title: "JsonKeys",
+            console: false,
+            register: false,
+            json_file: file,
+            json_timestamp: "epoch",
+            json_keys: { time: "ts", level: "severity", msg: "message", title: "logger" },
+            plugins: [JsonPlugin],
+        });
+
+        logger.error("Failed", new Error("boom"));
+        logger.debug("Filtered by level");
+
+        const lines = readLines(file);
+        expect(lines.length).toBe(1);
+        expect(typeof lines[0].ts).toBe("number");
+        expect(lines[0].severity).toBe("error");
+        expect(lines[0].logger).toBe("JsonKeys");
+        expect(lines[0].message).toContain("Failed");
+        expect(lines[0].message).toBe("Failed Error: boom");
+        expect(lines[0].error.message).toBe("boom");
+        expect(lines[0].error.stack).toContain("boom");
+    });
+
+    it("should only mark references to an ancestor as circular", () => {
+        const file = path.join(testLogDir, "circular.ndjson");
+        const logger = new Lggs({
+            title: "JsonCircular",
+            console: false,
+            register: false,
+            json_file: file,
+            plugins: [JsonPlugin],
+        });
+
+        const address = { city: "Lisbon" };
+        const error: any = new Error("loop");
+        error.home = address;
+        error.work = address;
+        error.cause = error;
+        logger.error("Failed", error);
+
+        const lines = readLines(file);
+        expect(lines[0].msg).toBe("Failed Error: loop");
+        expect(lines[0].error.home).toEqual({ city: "Lisbon" });
+        expect(lines[0].error.work).toEqual({ city: "Lisbon" });
+        expect(lines[0].error.cause).toBe("[Circular]");
+    });
+
+    it("should write the cause and the aggregated errors", () => {
+        const file = path.join(testLogDir, "cause.ndjson");
+        const logger = new Lggs({
+            title: "JsonCause",
+            console: false,
+            register: false,
+            json_file: file,
+            plugins: [JsonPlugin],
+        });
+
+        const reset = new Error("ECONNRESET", { cause: new TypeError("socket closed") });
+        const error = new AggregateError([reset, new Error("timeout")], "All requests failed");
+        logger.error("Failed", new Error("Sync failed", { cause: error }));
+
+        const lines = readLines(file);
+        const cause = lines[0].error.cause;
+        expect(cause.name).toBe("AggregateError");
+        expect(cause.message).toBe("All requests failed");
+        expect(cause.errors.map((item: any) => item.message)).toEqual(["ECONNRESET", "timeout"]);
+        expect(cause.errors[0].cause.name).toBe("TypeError");
+        expect(cause.errors[0].cause.message).toBe("socket closed");
+        expect(cause.errors[0].cause.stack).toContain("socket closed");
+    });
+});
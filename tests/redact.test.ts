@@ -0,0 +1,113 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import Lggs from "../src/lggs";
+import { ConsolePlugin } from "../src/libs/plugins/console";
+import { RedactPlugin } from "../src/libs/plugins/redact";
+import { RegisterPlugin } from "../src/libs/plugins/register";
+import fs from "fs";
+import path from "path";
+
+describe("Lggs Redact Plugin", () => {
+    const testLogDir = "./test_logs_redact";
+
+    afterAll(() => {
+        if (fs.existsSync(testLogDir)) {
+            fs.rmSync(testLogDir, { recursive: true, force: true });
+        }
+    });
+
+    it("should mask keys and patterns in console and register outputs", () => {
+        const printed: string[] = [];
+        const logger = new Lggs({
+            title: "RedactTest",
+            disable_colors: true,
+            register_dir: testLogDir,
+            register_filename: "redact.log",
+            fields: { sessionToken: "kept", token: "abc" },
+            plugins: [
+                RedactPlugin,
+                ConsolePlugin({ onSend: (_config, _level, message) => printed.push(message) }),
+                RegisterPlugin,
+            ],
+        });
+
+        const request = {
+            method: "GET",
+            headers: { Authorization: "Bearer secret-value", host: "api.local" },
+            body: { user: { password: "hunter2", name: "ana" } },
+        };
+        logger.info("login", request);
+        logger.info("card 4111 1111 1111 1111 from ana@example.com");
+
+        const written = fs.readFileSync(path.join(testLogDir, "redact.log"), "utf-8");
+        for (const output of [printed.join("\n"), written]) {
+            expect(output).not.toContain("secret-value");
+            expect(output).not.toContain("hunter2");
+            expect(output).not.toContain("4111 1111");
+            expect(output).not.toContain("ana@example.com");
+            expect(output).toContain("[REDACTED]");
+            expect(output).toContain("api.local");
+        }
+
+        // the logged object is never mutated
+        expect(request.headers.Authorization).toBe("Bearer secret-value");
+        expect(request.body.user.password).toBe("hunter2");
+    });
+
+    it("should support custom key paths, patterns and censor", () => {
+        const records: any[] = [];
+        const logger = new Lggs({
+            title: "RedactCustom",
+            console: false,
+            register: false,
+            redact_keys: ["*.token", "headers.authorization"],
+            redact_patterns: ["user-\\d+"],
+            redact_censor: "***",
+            plugins: [
+                RedactPlugin({ onRecord: (_config, record) => (records.push(record), record) }),
+                { ident: "sink", default: {}, onMessage: () => "" },
+            ],
+        });
+
+        const error = new Error("failed for user-42");
+        logger.error({ token: "top", auth: { token: "nested" }, authorization: "kept" }, error);
+
+        const [value, redactedError] = records[0].args;
+        expect(value).toEqual({ token: "top", auth: { token: "***" }, authorization: "kept" });
+        expect(redactedError).toBeInstanceOf(Error);
+        expect(redactedError.message).toBe("failed for ***");
+        expect(records[0].error).toBe(redactedError);
+        expect(error.message).toBe("failed for user-42");
+    });
+
+    it("should redact map and set entries and only valid card numbers", () => {
+        const records: any[] = [];
+        const logger = new Lggs({
+            title: "RedactCollections",
+            console: false,
+            register: false,
+            plugins: [
+                RedactPlugin({ onRecord: (_config, record) => (records.push(record), record) }),
+                { ident: "sink", default: {}, onMessage: () => "" },
+            ],
+        });
+
+        const settings = new Map<string, unknown>([
+            ["password", "hunter2"],
+            ["owner", "ana@example.com"],
+            ["region", "eu"],
+        ]);
+        const contacts = new Set(["ana@example.com", "support"]);
+        logger.info(settings, contacts, "order 1234567890123 paid with 4111-1111-1111-1111");
+
+        const [redactedSettings, redactedContacts, message] = records[0].args;
+        expect([...redactedSettings]).toEqual([
+            ["password", "[REDACTED]"],
+            ["owner", "[REDACTED]"],
+            ["region", "eu"],
+        ]);
+        expect([...redactedContacts]).toEqual(["[REDACTED]", "support"]);
+        expect(message).toBe("order 1234567890123 paid with [REDACTED]");
+        expect(settings.get("password")).toBe("hunter2");
+        expect(contacts.has("ana@example.com")).toBe(true);
+    });
+});
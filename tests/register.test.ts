@@ -1,7 +1,11 @@
 import { describe, it, expect, beforeAll, afterAll } from "bun:test";
 import Lggs from "../src/lggs";
+import { RegisterPlugin, RegisterPluginClose, RegisterPluginFlush } from "../src/libs/plugins/register";
+import { spawnSync } from "child_process";
 import fs from "fs";
 import path from "path";
+import zlib from "zlib";
+import { LggsFileWriter } from "../src/libs/writer";
 
 describe("Lggs Register (File System)", () => {
     const testLogDir = "./test_logs";
@@ -41,20 +45,27 @@ describe("Lggs Register (File System)", () => {
         const rotateDir = "./test_logs_rotate";
         if (!fs.existsSync(rotateDir)) fs.mkdirSync(rotateDir);
 
-        // Create dummy old files
-        const file1 = path.join(rotateDir, "old1.log");
-        const file2 = path.join(rotateDir, "old2.log");
-        const file3 = path.join(rotateDir, "old3.log");
+        // Create dummy old files, produced by the same filename template
+        const file1 = path.join(rotateDir, "current.3.log");
+        const file2 = path.join(rotateDir, "current.2.log");
+        const file3 = path.join(rotateDir, "current.1.log");
+        // Files not owned by the logger must never be deleted
+        const unrelated = path.join(rotateDir, "catalog.json");
+        const otherLog = path.join(rotateDir, "other-app.log");
 
         fs.writeFileSync(file1, "old1");
         fs.writeFileSync(file2, "old2");
         fs.writeFileSync(file3, "old3");
+        fs.writeFileSync(unrelated, "{}");
+        fs.writeFileSync(otherLog, "other");
 
         // Set mtime to ensure order (file1 oldest, file3 newest)
         const now = Date.now();
         fs.utimesSync(file1, (now - 3000) / 1000, (now - 3000) / 1000);
         fs.utimesSync(file2, (now - 2000) / 1000, (now - 2000) / 1000);
         fs.utimesSync(file3, (now - 1000) / 1000, (now - 1000) / 1000);
+        fs.utimesSync(unrelated, (now - 9000) / 1000, (now - 9000) / 1000);
+        fs.utimesSync(otherLog, (now - 9000) / 1000, (now - 9000) / 1000);
 
         const logger = new Lggs({
             title: "RotateTest",
@@ -67,25 +78,255 @@ describe("Lggs Register (File System)", () => {
 
         logger.info("New log triggering rotation");
 
-        // Expectation: 
-        // We had 3 files. We added 1 ("current.log"). Total 4.
-        // Limit is 2. So 2 oldest should be deleted?
-        // Let's check logic:
-        // Lib logic: `logFiles.slice(0, logFiles.length - config.register_limit)` are deleted.
-        // We have 4 files now (old1, old2, old3, current).
-        // 4 - 2 = 2 files to delete.
-        // Oldest are old1 and old2.
-
+        // We had 3 owned files. We added 1 ("current.log"). Total 4.
+        // Limit is 2, so the 2 oldest owned files are deleted.
         const files = fs.readdirSync(rotateDir);
         expect(files).toContain("current.log");
-        // old1 should be gone
-        expect(fs.existsSync(file1)).toBe(false); 
-        // old2 should be gone
+        expect(fs.existsSync(file1)).toBe(false);
         expect(fs.existsSync(file2)).toBe(false);
-        // old3 might remain or current remains
-        expect(files.length).toBeLessThanOrEqual(2);
+        expect(fs.existsSync(file3)).toBe(true);
+        expect(fs.existsSync(unrelated)).toBe(true);
+        expect(fs.existsSync(otherLog)).toBe(true);
 
         // Cleanup
         fs.rmSync(rotateDir, { recursive: true, force: true });
     });
+
+    it("should report files without deleting them in dry-run", () => {
+        const dryDir = "./test_logs_dry";
+        fs.rmSync(dryDir, { recursive: true, force: true });
+        fs.mkdirSync(dryDir);
+        const old = path.join(dryDir, "info_01_01_2020.log");
+        fs.writeFileSync(old, "old");
+        const past = (Date.now() - 5000) / 1000;
+        fs.utimesSync(old, past, past);
+
+        const reported: string[] = [];
+        const logger = new Lggs({
+            title: "DryRun",
+            console: false,
+            register_dir: dryDir,
+            register_filename: "{status}_{day}_{month}_{year}.{ext}",
+            register_limit: 1,
+            register_dry_run: true,
+            plugins: [RegisterPlugin({ onCleanup: (_config, files) => reported.push(...files) })],
+        });
+        logger.info("Dry run");
+
+        expect(reported).toEqual([old]);
+        expect(fs.existsSync(old)).toBe(true);
+
+        fs.rmSync(dryDir, { recursive: true, force: true });
+    });
+
+    it("should buffer lines until flushed", async () => {
+        const bufferDir = "./test_logs_buffer";
+        const logger = new Lggs({
+            title: "BufferTest",
+            console: false,
+            register: true,
+            register_dir: bufferDir,
+            register_filename: "buffer.log",
+            register_buffer: true,
+            register_flush_interval: 60000,
+        });
+
+        logger.info("Buffered line 1");
+        logger.info("Buffered line 2");
+
+        const filePath = path.join(bufferDir, "buffer.log");
+        const before = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : "";
+        expect(before).not.toContain("Buffered line");
+
+        await RegisterPluginFlush();
+        const content = fs.readFileSync(filePath, "utf-8");
+        expect(content).toContain("Buffered line 1");
+        expect(content).toContain("Buffered line 2");
+
+        await RegisterPluginClose();
+        fs.rmSync(bufferDir, { recursive: true, force: true });
+    });
+
+    it("should roll files by size and compress them", () => {
+        const sizeDir = "./test_logs_size";
+        fs.rmSync(sizeDir, { recursive: true, force: true });
+        const logger = new Lggs({
+            title: "SizeTest",
+            console: false,
+            register: true,
+            register_dir: sizeDir,
+            register_filename: "size.log",
+            register_max_size: "100B",
+            register_compress: true,
+            register_format: "{message}",
+        });
+
+        for (let i = 0; i < 5; i++) logger.info(`line ${i} `.padEnd(60, "x"));
+
+        const files = fs.readdirSync(sizeDir).sort();
+        expect(files).toEqual(["size.1.log.gz", "size.2.log.gz", "size.3.log.gz", "size.4.log.gz", "size.log"]);
+        expect(fs.readFileSync(path.join(sizeDir, "size.log"), "utf-8")).toContain("line 4");
+        const newest = zlib.gunzipSync(fs.readFileSync(path.join(sizeDir, "size.1.log.gz"))).toString();
+        expect(newest).toContain("line 3");
+        fs.rmSync(sizeDir, { recursive: true, force: true });
+
+        // the current file counts in register_limit, like the files rotated by date
+        const limitDir = "./test_logs_size_limit";
+        fs.rmSync(limitDir, { recursive: true, force: true });
+        logger.config({ register_dir: limitDir, register_limit: 3, register_compress: false });
+        for (let i = 0; i < 5; i++) logger.info(`line ${i} `.padEnd(60, "x"));
+        expect(fs.readdirSync(limitDir).sort()).toEqual(["size.1.log", "size.2.log", "size.log"]);
+
+        fs.rmSync(limitDir, { recursive: true, force: true });
+    });
+
+    it("should roll buffered files by size one after another", async () => {
+        const sizeDir = "./test_logs_size_buffered";
+        fs.rmSync(sizeDir, { recursive: true, force: true });
+        const warnings: string[] = [];
+        const originalEmitWarning = process.emitWarning;
+        process.emitWarning = ((message: string) => warnings.push(message)) as any;
+        const logger = new Lggs({
+            title: "BufferedSizeTest",
+            console: false,
+            register: true,
+            register_dir: sizeDir,
+            register_filename: "size.log",
+            register_max_size: "100B",
+            register_buffer: true,
+            register_compress: true,
+            register_limit: 5,
+            register_format: "{message}",
+        });
+
+        try {
+            for (let i = 0; i < 20; i++) logger.info(`line ${i} `.padEnd(60, "x"));
+            await logger.close();
+
+            const files = fs.readdirSync(sizeDir).sort();
+            expect(files).toEqual(["size.1.log.gz", "size.2.log.gz", "size.3.log.gz", "size.4.log.gz", "size.log"]);
+            expect(fs.readFileSync(path.join(sizeDir, "size.log"), "utf-8")).toBe(`${"line 19 ".padEnd(60, "x")}\n`);
+            for (let index = 1; index <= 4; index++) {
+                const rolled = zlib.gunzipSync(fs.readFileSync(path.join(sizeDir, `size.${index}.log.gz`))).toString();
+                expect(rolled).toBe(`${`line ${19 - index} `.padEnd(60, "x")}\n`);
+            }
+            expect(warnings).toEqual([]);
+        } finally {
+            process.emitWarning = originalEmitWarning;
+            fs.rmSync(sizeDir, { recursive: true, force: true });
+        }
+    });
+
+    it("should delete files older than register_max_age", () => {
+        const ageDir = "./test_logs_age";
+        fs.rmSync(ageDir, { recursive: true, force: true });
+        fs.mkdirSync(ageDir);
+        const oldFile = path.join(ageDir, "current.2.log");
+        const recentFile = path.join(ageDir, "current.1.log");
+        fs.writeFileSync(oldFile, "old");
+        fs.writeFileSync(recentFile, "recent");
+        const old = (Date.now() - 15 * 24 * 60 * 60 * 1000) / 1000;
+        fs.utimesSync(oldFile, old, old);
+
+        const logger = new Lggs({
+            title: "AgeTest",
+            console: false,
+            register: true,
+            register_dir: ageDir,
+            register_filename: "current.log",
+            register_max_age: "14d",
+        });
+        logger.info("New log triggering retention");
+
+        expect(fs.existsSync(oldFile)).toBe(false);
+        expect(fs.existsSync(recentFile)).toBe(true);
+
+        fs.rmSync(ageDir, { recursive: true, force: true });
+    });
+
+    it("should write buffered lines on logger.close()", async () => {
+        const closeDir = "./test_logs_close";
+        const logger = new Lggs({
+            title: "CloseTest",
+            console: false,
+            register: true,
+            register_dir: closeDir,
+            register_filename: "close.log",
+            register_buffer: true,
+            register_flush_interval: 60000,
+        });
+
+        logger.info("Last line before shutdown");
+        await logger.close();
+
+        const content = fs.readFileSync(path.join(closeDir, "close.log"), "utf-8");
+        expect(content).toContain("Last line before shutdown");
+        fs.rmSync(closeDir, { recursive: true, force: true });
+    });
+
+    it("should write objects on a single line with the file inspect options", () => {
+        const logger = new Lggs({
+            title: "InspectFile",
+            console: false,
+            register: true,
+            register_dir: testLogDir,
+            register_filename: "inspect.log",
+            register_format: "{message}",
+            register_inspect: { maxStringLength: 3, maxArrayLength: 2 },
+        });
+
+        logger.info({ user: { id: 1, roles: ["admin", "dev"] }, note: "truncated", ids: [[1, 2, 3]] });
+
+        const content = fs.readFileSync(path.join(testLogDir, "inspect.log"), "utf-8");
+        expect(content).toBe("{ user: { id: 1, roles: [ 'adm'... 2 more characters, 'dev' ] }, note: 'tru'... 6 more characters, ids: [ [ 1, 2, ... 1 more item ] ] }\n");
+    });
+
+    it("should report background write failures as warnings", async () => {
+        const brokenDir = "./test_logs_broken";
+        const warnings: string[] = [];
+        const originalEmitWarning = process.emitWarning;
+        process.emitWarning = ((message: string) => warnings.push(message)) as any;
+
+        try {
+            const writer = new LggsFileWriter(path.join(brokenDir, "broken.log"), {
+                buffered: true,
+                bufferSize: 1,
+                flushInterval: 60000,
+            });
+            // the folder is replaced by a file once the writer exists
+            fs.rmSync(brokenDir, { recursive: true, force: true });
+            fs.writeFileSync(brokenDir, "");
+
+            writer.write("lost line\n");
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            expect(warnings.length).toBe(1);
+            expect(warnings[0]).toContain("broken.log");
+        } finally {
+            process.emitWarning = originalEmitWarning;
+            fs.rmSync(brokenDir, { recursive: true, force: true });
+        }
+    });
+
+    it("should report failed writes at exit as warnings", () => {
+        const exitDir = path.resolve("./test_logs_exit");
+        fs.rmSync(exitDir, { recursive: true, force: true });
+        // the folder is replaced by a file before the buffered line is written at exit
+        const script = `
+            const fs = require("fs");
+            const { LggsFileWriter } = require(${JSON.stringify(path.resolve("src/libs/writer.ts"))});
+            const writer = new LggsFileWriter(${JSON.stringify(path.join(exitDir, "exit.log"))}, { buffered: true, bufferSize: 1e6, flushInterval: 60000 });
+            writer.write("lost line\\n");
+            fs.rmSync(${JSON.stringify(exitDir)}, { recursive: true, force: true });
+            fs.writeFileSync(${JSON.stringify(exitDir)}, "");
+        `;
+
+        try {
+            const result = spawnSync(process.execPath, ["-e", script], { encoding: "utf-8" });
+            expect(result.status).toBe(0);
+            expect(result.stderr).toContain("LggsWarning");
+            expect(result.stderr).toContain("exit.log");
+        } finally {
+            fs.rmSync(exitDir, { recursive: true, force: true });
+        }
+    });
 });
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "bun:test";
+import Lggs from "../src/lggs";
+import { SamplePlugin } from "../src/libs/plugins/sample";
+
+describe("Lggs Sample Plugin", () => {
+    const createLogger = (config: object) => {
+        const lines: string[] = [];
+        const SinkPlugin = {
+            ident: "sink",
+            default: {},
+            onMessage: (_config: any, level: string, messages: any[]) => `${level} ${messages.join(" ")}`,
+            onSend: (_config: any, _level: any, message: string) => {
+                lines.push(message);
+            },
+        };
+        const logger = new Lggs({
+            title: "SampleTest",
+            level: "debug",
+            console: false,
+            register: false,
+            plugins: [SinkPlugin, SamplePlugin],
+            ...config,
+        });
+        return { logger, lines };
+    };
+
+    it("should limit messages per template and summarize the suppressed ones", async () => {
+        const { logger, lines } = createLogger({ sample_limit: 2, sample_interval: "1m" });
+
+        for (let i = 0; i < 5; i++) logger.warn("Reconnecting to %s", "db");
+        logger.warn("Other message");
+        expect(lines).toEqual(["warn Reconnecting to %s db", "warn Reconnecting to %s db", "warn Other message"]);
+
+        await logger.flush();
+        expect(lines[3]).toBe("warn Suppressed 3 similar messages: Reconnecting to %s");
+
+        // nothing left to report
+        await logger.flush();
+        expect(lines.length).toBe(4);
+    });
+
+    it("should limit by level and sample levels by probability", async () => {
+        const { logger, lines } = createLogger({
+            sample_by: "level",
+            sample_limit: 1,
+            sample_interval: "1m",
+            sample_rates: { debug: 0, info: 1 },
+        });
+
+        logger.debug("dropped 1");
+        logger.debug("dropped 2");
+        logger.info("first");
+        logger.info("second");
+        expect(lines).toEqual(["info first"]);
+
+        await logger.close();
+        expect(lines.slice(1).sort()).toEqual(["debug Suppressed 2 similar messages", "info Suppressed 1 similar messages"]);
+    });
+});
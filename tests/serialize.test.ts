@@ -0,0 +1,63 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import _inspect from "../src/libs/inspect";
+import { LggsSerialize } from "../src/libs/serialize";
+import { setRuntime, Runtime } from "../src/libs/utils";
+
+describe("Lggs Serialize", () => {
+    afterAll(() => {
+        setRuntime(Runtime.Bun);
+    });
+
+    it("should mark circular references and show class names", () => {
+        class User {
+            name = "ana";
+            tags = new Set(["admin"]);
+        }
+        const user: any = new User();
+        user.self = user;
+
+        expect(LggsSerialize(user, { breakLength: Infinity })).toBe(
+            "<ref *1> User { name: 'ana', tags: Set(1) { 'admin' }, self: [Circular *1] }",
+        );
+    });
+
+    it("should render values by type with depth and length limits", () => {
+        const value = {
+            map: new Map([["id", 10n]]),
+            date: new Date(0),
+            regexp: /x/g,
+            symbol: Symbol("s"),
+            bytes: new Uint8Array([1, 2, 3]),
+            list: [1, , 3, 4],
+            text: "it's long",
+            deep: { a: { b: { c: 1 } } },
+            fn() {},
+        };
+
+        expect(LggsSerialize(value, { depth: 1, maxArrayLength: 3, maxStringLength: 4 })).toBe(
+            [
+                "{",
+                "  map: Map(1) { 'id' => 10n },",
+                "  date: 1970-01-01T00:00:00.000Z,",
+                "  regexp: /x/g,",
+                "  symbol: Symbol(s),",
+                "  bytes: Uint8Array(3) [ 1, 2, 3 ],",
+                "  list: [ 1, <1 empty item>, 3, ... 1 more item ],",
+                "  text: \"it's\"... 5 more characters,",
+                "  deep: { a: [Object] },",
+                "  fn: [Function fn]",
+                "}",
+            ].join("\n"),
+        );
+    });
+
+    it("should be used by _inspect when no native inspect is available", () => {
+        const value: any = { id: 1 };
+        value.parent = value;
+
+        setRuntime(Runtime.Browser);
+        expect(_inspect(value, true)).toBe("<ref *1> {\n  id: 1,\n  parent: [Circular *1]\n}");
+        expect(_inspect(value, true, { compact: true })).toBe("<ref *1> { id: 1, parent: [Circular *1] }");
+        expect(_inspect(value)).toContain("\x1b[");
+    });
+});